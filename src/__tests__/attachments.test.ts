@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { isUrl, resolveAttachments, sniffMimeType } from '../utils/attachments.js'
+
+let dir: string
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'v0-cli-attach-'))
+})
+
+afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+})
+
+describe('attachments', () => {
+    it('tells URLs from local paths', () => {
+        expect(isUrl('https://example.com/a.png')).toBe(true)
+        expect(isUrl('data:text/plain;base64,aGk=')).toBe(true)
+        expect(isUrl('./shot.png')).toBe(false)
+        expect(isUrl('C:\\shots\\a.png')).toBe(false)
+    })
+
+    it('sniffs the MIME type from content before the extension', () => {
+        const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0])
+        expect(sniffMimeType(png, 'screenshot.bin')).toBe('image/png')
+        expect(sniffMimeType(Buffer.from('# Spec'), 'spec.md')).toBe('text/markdown')
+        expect(sniffMimeType(Buffer.from([1, 0, 2]), 'blob')).toBe('application/octet-stream')
+    })
+
+    it('inlines local files as data URLs and keeps URLs untouched', () => {
+        const spec = join(dir, 'spec.txt')
+        writeFileSync(spec, 'hello')
+        const { attachments, inlined } = resolveAttachments(['https://a.png', spec])
+        expect(attachments).toEqual([{ url: 'https://a.png' }, { url: 'data:text/plain;base64,aGVsbG8=' }])
+        expect(inlined).toEqual([{ path: spec, mimeType: 'text/plain', bytes: 5 }])
+    })
+
+    it('rejects missing and oversized files', () => {
+        const big = join(dir, 'big.txt')
+        writeFileSync(big, 'x'.repeat(20))
+        expect(() => resolveAttachments([big], 10)).toThrow('over the 10 byte limit')
+        expect(() => resolveAttachments([join(dir, 'nope.png')])).toThrow('Attachment not found')
+    })
+})
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import inquirer from 'inquirer'
+import { projectCommand } from '../commands/project.js'
+import { ProjectBundle, bundleFormatFor, parseBundle, renderBundle, uniqueProjectName } from '../utils/bundle.js'
+
+vi.mock('../utils/config.js', () => ({
+    ensureApiKey: vi.fn(async () => 'test-key'),
+    getConfig: vi.fn(() => ({ apiKey: 'test-key', defaultProject: '', baseUrl: '', outputFormat: 'json' })),
+    resolveBaseUrl: vi.fn(() => ''),
+}))
+
+const sourceProject = {
+    id: 'proj_1', object: 'project', name: 'Shop', privacy: 'team', description: 'Storefront', instructions: 'Use Tailwind',
+    vercelProjectId: 'prj_v1', createdAt: '', apiUrl: '', webUrl: '',
+    chats: [
+        { id: 'chat_1', name: 'Home page', privacy: 'private', latestVersion: { id: 'ver_1' } },
+        { id: 'chat_2', privacy: 'team' },
+    ],
+}
+
+const projectsMock = {
+    getById: vi.fn(async () => sourceProject),
+    findEnvVars: vi.fn(async ({ decrypted }: { decrypted?: string }) => ({
+        object: 'list',
+        data: [
+            { id: 'e1', key: 'API_URL', value: decrypted ? 'https://api.example.com' : 'enc', decrypted: !!decrypted },
+            { id: 'e2', key: 'SECRET', value: 'enc', decrypted: false },
+        ],
+    })),
+    find: vi.fn(async () => ({ object: 'list', data: [{ id: 'proj_1', name: 'Shop' }, { id: 'proj_2', name: 'Shop (2)' }] })),
+    create: vi.fn(async (body: any) => ({ id: 'proj_new', name: body.name, webUrl: 'https://v0.dev/p/new' })),
+    createEnvVars: vi.fn(async () => ({ object: 'list', data: [] })),
+}
+
+const chatsMock = {
+    getVersion: vi.fn(async () => ({ id: 'ver_1', files: [{ name: 'app/page.tsx', content: 'export default 1', locked: true }, { name: 'README.md', content: '# Shop', locked: false }] })),
+    init: vi.fn(async () => ({ id: 'chat_new' })),
+}
+
+vi.mock('v0-sdk', () => ({
+    createClient: vi.fn(() => ({ projects: projectsMock, chats: chatsMock })),
+}))
+
+const bundle: ProjectBundle = {
+    version: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    project: { id: 'proj_1', name: 'Shop', description: 'Storefront', privacy: 'team' },
+    env: {
+        valuesIncluded: true,
+        vars: [{ key: 'API_URL', value: 'https://api.example.com' }, { key: 'SECRET', encrypted: true }],
+    },
+    chats: [
+        { id: 'chat_1', name: 'Home page', privacy: 'private', versionId: 'ver_1', files: [{ name: 'app/page.tsx', content: 'export default 1', locked: true }] },
+        { id: 'chat_2', privacy: 'team', files: [] },
+    ],
+}
+
+function makeProgram() {
+    const program = new Command()
+    projectCommand(program)
+    return program
+}
+
+let dir: string
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    dir = mkdtempSync(join(tmpdir(), 'v0-bundle-'))
+})
+
+afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+})
+
+describe('bundle format', () => {
+    it('round-trips through JSON and YAML', () => {
+        expect(parseBundle(renderBundle(bundle, 'json'))).toEqual(bundle)
+        expect(parseBundle(renderBundle(bundle, 'yaml'))).toEqual(bundle)
+        expect(bundleFormatFor('bundle.yml')).toBe('yaml')
+        expect(bundleFormatFor('yaml')).toBe('yaml')
+        expect(bundleFormatFor('bundle.json')).toBe('json')
+    })
+
+    it('lists every problem with an invalid bundle', () => {
+        const broken = JSON.stringify({ version: 2, project: {}, env: { vars: [{ value: 1 }] }, chats: [{ files: [{ name: 'a' }] }] })
+        expect(() => parseBundle(broken, 'b.json')).toThrow(
+            'Invalid bundle b.json:\n  - unsupported version 2 (expected 1)\n  - project.name is required\n  - env.vars[0].key is required\n  - chats[0].files[0] needs a name and content',
+        )
+    })
+
+    it('picks the first free "Name (n)" for a taken name', () => {
+        expect(uniqueProjectName('Shop', ['Other'])).toBe('Shop')
+        expect(uniqueProjectName('Shop', ['shop', 'Shop (2)'])).toBe('Shop (3)')
+    })
+})
+
+describe('project export', () => {
+    it('writes env var keys without values and the latest files of each chat', async () => {
+        const out = join(dir, 'bundle.yaml')
+        await makeProgram().parseAsync(['project', 'export', 'proj_1', '-o', out], { from: 'user' })
+
+        expect(projectsMock.findEnvVars).toHaveBeenCalledWith({ projectId: 'proj_1', decrypted: undefined })
+        expect(chatsMock.getVersion).toHaveBeenCalledTimes(1)
+        expect(chatsMock.getVersion).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'ver_1' })
+
+        const written = parseBundle(readFileSync(out, 'utf8'))
+        expect(written.project).toEqual({ id: 'proj_1', name: 'Shop', description: 'Storefront', instructions: 'Use Tailwind', privacy: 'team', vercelProjectId: 'prj_v1' })
+        expect(written.env).toEqual({ valuesIncluded: false, vars: [{ key: 'API_URL' }, { key: 'SECRET' }] })
+        expect(written.chats).toEqual([
+            { id: 'chat_1', name: 'Home page', privacy: 'private', versionId: 'ver_1', files: [{ name: 'app/page.tsx', content: 'export default 1', locked: true }, { name: 'README.md', content: '# Shop' }] },
+            { id: 'chat_2', privacy: 'team', files: [] },
+        ])
+    })
+
+    it('includes decrypted values on request and flags the ones it could not read', async () => {
+        const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        await makeProgram().parseAsync(['project', 'export', 'proj_1', '--include-values'], { from: 'user' })
+
+        const printed = parseBundle(String(writeSpy.mock.calls[0][0]))
+        expect(printed.env).toEqual({ valuesIncluded: true, vars: [{ key: 'API_URL', value: 'https://api.example.com' }, { key: 'SECRET', encrypted: true }] })
+        expect(errorSpy).toHaveBeenCalledWith('Encrypted values left out: SECRET')
+        writeSpy.mockRestore()
+        errorSpy.mockRestore()
+    })
+
+    it('asks before printing values to a terminal', async () => {
+        const isTTY = process.stdout.isTTY
+        process.stdout.isTTY = true
+        ; (inquirer.prompt as any).mockResolvedValueOnce({ confirm: false })
+        const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['project', 'export', 'proj_1', '--include-values'], { from: 'user' })
+            expect(inquirer.prompt).toHaveBeenCalledTimes(1)
+            expect(projectsMock.findEnvVars).not.toHaveBeenCalled()
+            expect(writeSpy).not.toHaveBeenCalled()
+
+            // Writing to a file does not prompt
+            await makeProgram().parseAsync(['project', 'export', 'proj_1', '--include-values', '-o', join(dir, 'bundle.json')], { from: 'user' })
+            expect(inquirer.prompt).toHaveBeenCalledTimes(1)
+            expect(parseBundle(readFileSync(join(dir, 'bundle.json'), 'utf8')).env.valuesIncluded).toBe(true)
+        } finally {
+            process.stdout.isTTY = isTTY
+            writeSpy.mockRestore()
+            logSpy.mockRestore()
+        }
+    })
+})
+
+describe('project import', () => {
+    it('recreates the project under a free name with its env vars and chats', async () => {
+        const file = join(dir, 'bundle.json')
+        writeFileSync(file, renderBundle(bundle, 'json'))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await makeProgram().parseAsync(['project', 'import', file], { from: 'user' })
+
+        expect(projectsMock.create).toHaveBeenCalledWith({ name: 'Shop (3)', description: 'Storefront', instructions: undefined, privacy: 'team' })
+        expect(projectsMock.createEnvVars).toHaveBeenCalledWith({ projectId: 'proj_new', environmentVariables: [{ key: 'API_URL', value: 'https://api.example.com' }] })
+        expect(chatsMock.init).toHaveBeenCalledTimes(1)
+        expect(chatsMock.init).toHaveBeenCalledWith({
+            type: 'files',
+            projectId: 'proj_new',
+            name: 'Home page',
+            chatPrivacy: 'private',
+            files: [{ name: 'app/page.tsx', content: 'export default 1', locked: true }],
+        })
+
+        const report = JSON.parse(logSpy.mock.calls[0][0])
+        expect(report.project).toEqual({ id: 'proj_new', name: 'Shop (3)', webUrl: 'https://v0.dev/p/new' })
+        expect(report.steps.map((s: any) => `${s.resource} ${s.name} ${s.result}`)).toEqual([
+            'project Shop (3) created',
+            'env SECRET skipped',
+            'env API_URL created',
+            'chat Home page created',
+            'chat chat_2 skipped',
+        ])
+        logSpy.mockRestore()
+    })
+
+    it('stops before creating anything when the name is taken and --on-conflict is fail', async () => {
+        const file = join(dir, 'bundle.json')
+        writeFileSync(file, renderBundle(bundle, 'json'))
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        await expect(makeProgram().parseAsync(['project', 'import', file, '--on-conflict', 'fail'], { from: 'user' })).rejects.toThrow('exit')
+
+        expect(projectsMock.create).not.toHaveBeenCalled()
+        expect(errorSpy.mock.calls.flat().join(' ')).toContain('A project named "Shop" already exists')
+        exitSpy.mockRestore()
+        errorSpy.mockRestore()
+    })
+
+    it('reports a failed chat and exits non-zero after importing the rest', async () => {
+        const file = join(dir, 'bundle.json')
+        writeFileSync(file, renderBundle({ ...bundle, chats: [bundle.chats[0], { ...bundle.chats[0], id: 'chat_3', name: 'Docs' }] }, 'json'))
+        chatsMock.init.mockRejectedValueOnce(new Error('quota exceeded'))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        await expect(makeProgram().parseAsync(['project', 'import', file, '--name', 'Copy'], { from: 'user' })).rejects.toThrow('exit')
+
+        expect(projectsMock.create).toHaveBeenCalledWith(expect.objectContaining({ name: 'Copy' }))
+        expect(chatsMock.init).toHaveBeenCalledTimes(2)
+        const chats = JSON.parse(logSpy.mock.calls[0][0]).steps.filter((s: any) => s.resource === 'chat')
+        expect(chats).toEqual([
+            { resource: 'chat', name: 'Home page', result: 'failed', detail: 'quota exceeded' },
+            { resource: 'chat', name: 'Docs', result: 'created', id: 'chat_new', detail: '1 files' },
+        ])
+        logSpy.mockRestore()
+        exitSpy.mockRestore()
+        errorSpy.mockRestore()
+    })
+
+    it('masks env values echoed back in a failure', async () => {
+        const file = join(dir, 'bundle.json')
+        writeFileSync(file, renderBundle({ ...bundle, chats: [] }, 'json'))
+        projectsMock.createEnvVars.mockRejectedValueOnce(new Error('HTTP 400: {"key":"API_URL","value":"https://api.example.com"}'))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        await expect(makeProgram().parseAsync(['project', 'import', file], { from: 'user' })).rejects.toThrow('exit')
+
+        const env = JSON.parse(logSpy.mock.calls[0][0]).steps.find((s: any) => s.name === 'API_URL')
+        expect(env).toEqual({ resource: 'env', name: 'API_URL', result: 'failed', detail: 'HTTP 400: {"key":"API_URL","value":"***.com"}' })
+        logSpy.mockRestore()
+        exitSpy.mockRestore()
+        errorSpy.mockRestore()
+    })
+})
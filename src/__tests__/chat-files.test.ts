@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execFileSync } from 'child_process'
+import { chatCommand } from '../commands/chat.js'
+
+vi.mock('../utils/config.js', () => ({
+    ensureApiKey: vi.fn(async () => 'test-key'),
+    getConfig: vi.fn(() => ({ apiKey: 'test-key', defaultProject: '', baseUrl: '', outputFormat: 'json' })),
+    resolveBaseUrl: vi.fn((preferred?: string) => preferred || process.env.V0_BASE_URL || ''),
+}))
+
+const files = [
+    { object: 'file', name: 'app/page.tsx', content: 'export default function Page() {}\n', locked: false },
+    { object: 'file', name: 'components/ui/button.tsx', content: 'export const Button = () => null\n', locked: false },
+]
+
+const chatsMock = {
+    getById: vi.fn(async () => ({ id: 'chat_1', latestVersion: { id: 'v2', object: 'version', status: 'completed', files } })),
+    getVersion: vi.fn(async () => ({ id: 'v1', object: 'version', status: 'completed', files })),
+    sendMessage: vi.fn(async (body: any) => ({ id: body.chatId, webUrl: 'https://v0.dev/c/chat_1' })),
+    init: vi.fn(async (body: any) => ({ id: 'chat_3', webUrl: 'https://v0.dev/c/chat_3', files: body.files })),
+    updateVersion: vi.fn(async (body: any) => ({ id: body.versionId, object: 'version', status: 'completed', files: body.files })),
+    findVersions: vi.fn(async () => ({ data: [], pagination: { hasMore: false } })),
+    findMessages: vi.fn(async (params: any) => params.cursor
+        ? {
+            data: [{ id: 'm1', role: 'user', type: 'message', content: 'Build a page', createdAt: '2024-01-01T10:00:00Z' }],
+            pagination: { hasMore: false },
+        }
+        : {
+            data: [{ id: 'm2', role: 'assistant', type: 'message', content: 'Done:\n```tsx\n<Page />\n```', createdAt: '2024-01-01T10:01:00Z' }],
+            pagination: { hasMore: true, nextCursor: 'c2' },
+        }),
+}
+
+vi.mock('v0-sdk', () => ({ createClient: vi.fn(() => ({ chats: chatsMock })) }))
+
+function makeProgram() {
+    const program = new Command()
+    chatCommand(program)
+    return program
+}
+
+let dir: string
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => { })
+    vi.spyOn(console, 'error').mockImplementation(() => { })
+    dir = mkdtempSync(join(tmpdir(), 'v0-cli-test-'))
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+})
+
+describe('chat pull', () => {
+    it('writes the latest version files with their relative paths', async () => {
+        await makeProgram().parseAsync(['chat', 'pull', 'chat_1', '--dir', dir], { from: 'user' })
+        expect(chatsMock.getById).toHaveBeenCalledWith({ chatId: 'chat_1' })
+        expect(readFileSync(join(dir, 'app/page.tsx'), 'utf8')).toBe(files[0].content)
+        expect(readFileSync(join(dir, 'components/ui/button.tsx'), 'utf8')).toBe(files[1].content)
+        const manifest = JSON.parse(readFileSync(join(dir, '.v0-pull.json'), 'utf8'))
+        expect(manifest).toMatchObject({ chatId: 'chat_1', versionId: 'v2' })
+    })
+
+    it('uses getVersion when --version-id is provided', async () => {
+        await makeProgram().parseAsync(['chat', 'pull', 'chat_1', '--version-id', 'v1', '--dir', dir], { from: 'user' })
+        expect(chatsMock.getVersion).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'v1' })
+    })
+
+    it('refuses to overwrite locally modified files without --force', async () => {
+        mkdirSync(join(dir, 'app'), { recursive: true })
+        writeFileSync(join(dir, 'app/page.tsx'), 'local edit\n')
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+            throw new Error(`exit:${code}`)
+        }) as any)
+
+        await expect(makeProgram().parseAsync(['chat', 'pull', 'chat_1', '--dir', dir], { from: 'user' })).rejects.toThrow('exit:1')
+        expect(exitSpy).toHaveBeenCalledWith(1)
+        expect(readFileSync(join(dir, 'app/page.tsx'), 'utf8')).toBe('local edit\n')
+        expect(existsSync(join(dir, 'components/ui/button.tsx'))).toBe(false)
+    })
+
+    it('overwrites modified files with --force', async () => {
+        mkdirSync(join(dir, 'app'), { recursive: true })
+        writeFileSync(join(dir, 'app/page.tsx'), 'local edit\n')
+        await makeProgram().parseAsync(['chat', 'pull', 'chat_1', '--dir', dir, '--force'], { from: 'user' })
+        expect(readFileSync(join(dir, 'app/page.tsx'), 'utf8')).toBe(files[0].content)
+    })
+})
+
+describe('chat push', () => {
+    it('uploads the tree with relative paths and honors ignore files', async () => {
+        mkdirSync(join(dir, 'app'), { recursive: true })
+        mkdirSync(join(dir, 'components'), { recursive: true })
+        mkdirSync(join(dir, 'node_modules/pkg'), { recursive: true })
+        writeFileSync(join(dir, 'app/index.tsx'), 'app')
+        writeFileSync(join(dir, 'components/index.tsx'), 'components')
+        writeFileSync(join(dir, 'node_modules/pkg/index.js'), 'dep')
+        writeFileSync(join(dir, 'debug.log'), 'log')
+        writeFileSync(join(dir, 'secret.txt'), 'secret')
+        writeFileSync(join(dir, '.gitignore'), '*.log\n')
+        writeFileSync(join(dir, '.v0ignore'), 'secret.txt\n')
+
+        await makeProgram().parseAsync(['chat', 'push', 'chat_1', '--dir', dir], { from: 'user' })
+
+        expect(chatsMock.updateVersion).toHaveBeenCalled()
+        const body = (chatsMock.updateVersion as any).mock.calls[0][0]
+        expect(body).toMatchObject({ chatId: 'chat_1', versionId: 'v2' })
+        expect(body.files.map((f: any) => f.name)).toEqual(['.gitignore', 'app/index.tsx', 'components/index.tsx'])
+    })
+
+    it('skips binary and oversized files', async () => {
+        writeFileSync(join(dir, 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x47]))
+        writeFileSync(join(dir, 'big.txt'), 'x'.repeat(200))
+        writeFileSync(join(dir, 'ok.txt'), 'ok')
+
+        await makeProgram().parseAsync(['chat', 'push', 'chat_1', '--dir', dir, '--version-id', 'v1', '--max-file-size', '100'], { from: 'user' })
+
+        expect(chatsMock.getById).not.toHaveBeenCalled()
+        const body = (chatsMock.updateVersion as any).mock.calls[0][0]
+        expect(body.files).toEqual([{ name: 'ok.txt', content: 'ok' }])
+    })
+
+    it('rejects a --max-file-size that is not a number', async () => {
+        vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        writeFileSync(join(dir, 'ok.txt'), 'ok')
+        await expect(makeProgram().parseAsync(['chat', 'push', 'chat_1', '--dir', dir, '--version-id', 'v1', '--max-file-size', '1MB'], { from: 'user' })).rejects.toThrow('exit')
+        expect(chatsMock.updateVersion).not.toHaveBeenCalled()
+        expect((console.error as any).mock.calls.flat().join(' ')).toContain('Invalid --max-file-size value: 1MB')
+    })
+})
+
+describe('chat export', () => {
+    it('follows every page and writes messages in chronological order', async () => {
+        const out = join(dir, 'chat.md')
+        await makeProgram().parseAsync(['chat', 'export', 'chat_1', '--out', out], { from: 'user' })
+        expect(chatsMock.findMessages).toHaveBeenCalledTimes(2)
+        expect(chatsMock.findMessages).toHaveBeenLastCalledWith({ chatId: 'chat_1', cursor: 'c2' })
+        const md = readFileSync(out, 'utf8')
+        expect(md.indexOf('## User')).toBeLessThan(md.indexOf('## Assistant'))
+        expect(md).toContain('```tsx\n<Page />\n```')
+        expect(md).not.toContain('#### app/page.tsx')
+    })
+
+    it('embeds the files of every version with --include-files', async () => {
+        // v2 follows the assistant message; v1 predates every assistant message
+        chatsMock.findVersions.mockResolvedValueOnce({
+            data: [
+                { id: 'v2', object: 'version', status: 'completed', createdAt: '2024-01-01T10:01:30Z' },
+                { id: 'v1', object: 'version', status: 'completed', createdAt: '2024-01-01T09:59:00Z' },
+            ],
+            pagination: { hasMore: false },
+        })
+        const out = join(dir, 'chat.jsonl')
+        await makeProgram().parseAsync(['chat', 'export', 'chat_1', '--format', 'jsonl', '--include-files', '--out', out], { from: 'user' })
+        const lines = readFileSync(out, 'utf8').trim().split('\n').map((line) => JSON.parse(line))
+        expect(lines.map((l) => [l.id, l.versionId])).toEqual([['m1', undefined], ['m2', 'v2'], [undefined, 'v1']])
+        expect(chatsMock.getVersion).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'v1' })
+        expect(chatsMock.getVersion).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'v2' })
+        expect(lines[1].files.map((f: any) => f.name)).toEqual(['app/page.tsx', 'components/ui/button.tsx'])
+    })
+})
+
+describe('chat init from local sources', () => {
+    const git = (...args: string[]) => execFileSync('git', ['-C', dir, '-c', 'user.name=t', '-c', 'user.email=t@example.com', ...args], { stdio: 'pipe' })
+
+    it('uploads a directory with preserved paths and ignore rules', async () => {
+        mkdirSync(join(dir, 'src/lib'), { recursive: true })
+        writeFileSync(join(dir, 'src/lib/util.ts'), 'export {}\n')
+        writeFileSync(join(dir, 'secret.env'), 'TOKEN=1\n')
+        writeFileSync(join(dir, '.v0ignore'), '*.env\n')
+        await makeProgram().parseAsync(['chat', 'init', '--dir', dir], { from: 'user' })
+        const body = (chatsMock.init as any).mock.calls[0][0]
+        expect(body.type).toBe('files')
+        expect(body.files.map((f: any) => f.name)).toEqual(['src/lib/util.ts'])
+        expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Uploading 1 files (10 bytes)'))
+    })
+
+    it('rejects a --max-file-size that is not a number', async () => {
+        vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        writeFileSync(join(dir, 'ok.txt'), 'ok')
+        await expect(makeProgram().parseAsync(['chat', 'init', '--dir', dir, '--max-file-size', 'big'], { from: 'user' })).rejects.toThrow('exit')
+        expect(chatsMock.init).not.toHaveBeenCalled()
+        expect((console.error as any).mock.calls.flat().join(' ')).toContain('Invalid --max-file-size value: big')
+    })
+
+    it('snapshots a local git repository at a ref', async () => {
+        git('init', '-q')
+        mkdirSync(join(dir, 'app'))
+        writeFileSync(join(dir, 'app/page.tsx'), 'v1\n')
+        git('add', '.')
+        git('commit', '-q', '-m', 'first')
+        git('tag', 'first')
+        writeFileSync(join(dir, 'app/page.tsx'), 'v2\n')
+        writeFileSync(join(dir, 'README.md'), 'readme\n')
+        git('add', '.')
+        git('commit', '-q', '-m', 'second')
+        writeFileSync(join(dir, 'untracked.ts'), 'x\n')
+
+        await makeProgram().parseAsync(['chat', 'init', '--git', dir, '--ref', 'first'], { from: 'user' })
+        expect((chatsMock.init as any).mock.calls[0][0].files).toEqual([{ name: 'app/page.tsx', content: 'v1\n' }])
+
+        await makeProgram().parseAsync(['chat', 'init', '--git', dir], { from: 'user' })
+        expect((chatsMock.init as any).mock.calls[1][0].files.map((f: any) => f.name)).toEqual(['app/page.tsx', 'README.md'])
+    })
+})
+
+describe('chat message attachments', () => {
+    it('inlines local files and reports their size', async () => {
+        const shot = join(dir, 'shot.png')
+        writeFileSync(shot, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+        await makeProgram().parseAsync(['chat', 'message', 'chat_1', 'Match this', '-a', 'https://a.png', shot], { from: 'user' })
+        const body = (chatsMock.sendMessage as any).mock.calls[0][0]
+        expect(body.attachments).toEqual([{ url: 'https://a.png' }, { url: 'data:image/png;base64,iVBORw0KGgo=' }])
+        expect(console.log).toHaveBeenCalledWith(expect.anything(), `Inlined ${shot} (image/png, 8 bytes)`)
+    })
+
+    it('rejects a --max-attachment-size that is not a number instead of lifting the limit', async () => {
+        vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const shot = join(dir, 'shot.png')
+        writeFileSync(shot, Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+        await expect(makeProgram().parseAsync(['chat', 'message', 'chat_1', 'Match this', '-a', shot, '--max-attachment-size', '5mb'], { from: 'user' })).rejects.toThrow('exit')
+        expect(chatsMock.sendMessage).not.toHaveBeenCalled()
+        expect((console.error as any).mock.calls.flat().join(' ')).toContain('Invalid --max-attachment-size value: 5mb')
+    })
+})
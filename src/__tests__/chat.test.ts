@@ -20,6 +20,7 @@ vi.mock('fs', async (orig) => {
 
 // v0-sdk mock with capture of last client instance
 const chatsMock = {
+    create: vi.fn(async () => ({ id: 'chat_1', webUrl: 'https://v0.dev/c/chat_1' })),
     init: vi.fn(async () => ({ id: 'chat_1', webUrl: 'https://v0.dev/c/chat_1' })),
     fork: vi.fn(async () => ({ id: 'chat_2', webUrl: 'https://v0.dev/c/chat_2' })),
     findMessages: vi.fn(async () => ({
@@ -38,6 +39,7 @@ const chatsMock = {
     sendMessage: vi.fn(async () => ({ id: 'chat_1', webUrl: 'https://v0.dev/c/chat_1' })),
     resume: vi.fn(async () => ({ id: 'm2', object: 'message', content: 'resumed', createdAt: new Date().toISOString(), type: 'message', role: 'assistant', apiUrl: '', chatId: 'chat_1' })),
     update: vi.fn(async () => ({ id: 'chat_1', privacy: 'public' })),
+    getById: vi.fn(async () => ({ id: 'chat_1', webUrl: 'https://v0.dev/c/chat_1', latestVersion: { id: 'v1', object: 'version', status: 'completed', createdAt: new Date().toISOString(), files: [] } })),
 }
 
 vi.mock('v0-sdk', () => {
@@ -76,6 +78,25 @@ describe('chat subcommands parity', () => {
         })
     })
 
+    it('chat create reads message and system files and fills --var placeholders', async () => {
+        const { readFileSync } = await import('fs')
+            ; (readFileSync as any)
+                .mockReturnValueOnce('Build a {{page}} page for {{brand}}\n')
+                .mockReturnValueOnce('You write {{brand}} components')
+        const program = makeProgram()
+        await program.parseAsync(['chat', 'create', '--message-file', 'spec.md', '--system-file', 'system.md', '--var', 'page=pricing', '--var', 'brand=Acme'], { from: 'user' })
+        expect(readFileSync).toHaveBeenCalledWith('spec.md', 'utf8')
+        expect(chatsMock.create).toHaveBeenCalledWith(expect.objectContaining({
+            message: 'Build a pricing page for Acme\n',
+            system: 'You write Acme components',
+        }))
+    })
+
+    it('chat message keeps a message that follows --var', async () => {
+        await makeProgram().parseAsync(['chat', 'message', 'chat_1', '--var', 'name=Acme', 'Rename the brand to {{name}}'], { from: 'user' })
+        expect(chatsMock.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ chatId: 'chat_1', message: 'Rename the brand to Acme' }))
+    })
+
     it('chat init from files reads content and calls SDK', async () => {
         const program = makeProgram()
         await program.parseAsync(['chat', 'init', '--file', 'a.ts', 'b.ts', '--name', 'X', '-P', 'proj_1'], { from: 'user' })
@@ -116,6 +137,55 @@ describe('chat subcommands parity', () => {
         expect(upd.files).toHaveLength(2)
     })
 
+    it('chat versions list --all follows cursors and streams ndjson', async () => {
+        ; (chatsMock.findVersions as any)
+            .mockResolvedValueOnce({ data: [{ id: 'v3' }, { id: 'v2' }], pagination: { hasMore: true, nextCursor: 'c2' } })
+            .mockResolvedValueOnce({ data: [{ id: 'v1' }], pagination: { hasMore: false } })
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const program = makeProgram()
+        await program.parseAsync(['chat', 'versions', 'list', 'chat_1', '--all', '-o', 'ndjson'], { from: 'user' })
+        expect(chatsMock.findVersions).toHaveBeenLastCalledWith({ chatId: 'chat_1', limit: '20', cursor: 'c2' })
+        expect(logSpy.mock.calls.map((c) => JSON.parse(c[0]).id)).toEqual(['v3', 'v2', 'v1'])
+        logSpy.mockRestore()
+    })
+
+    it('chat versions diff compares against the latest version', async () => {
+        ; (chatsMock.getVersion as any)
+            .mockResolvedValueOnce({ id: 'v1', files: [{ name: 'a.ts', content: 'one\n' }] })
+            .mockResolvedValueOnce({ id: 'v2', files: [{ name: 'a.ts', content: 'two\n' }, { name: 'b.ts', content: 'new\n' }] })
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const program = makeProgram()
+        await program.parseAsync(['chat', 'versions', 'diff', 'chat_1', 'v1', '--stat', '-o', 'json'], { from: 'user' })
+        expect(chatsMock.getById).toHaveBeenCalledWith({ chatId: 'chat_1' })
+        expect(chatsMock.getVersion).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'v1' })
+        const patch = JSON.parse(logSpy.mock.calls[0][0])
+        expect(patch.files).toEqual([
+            { name: 'a.ts', status: 'modified', additions: 1, deletions: 1 },
+            { name: 'b.ts', status: 'added', additions: 1, deletions: 0 },
+        ])
+        logSpy.mockRestore()
+    })
+
+    it('chat message --wait polls until the new version completes', async () => {
+        ; (chatsMock.getById as any)
+            .mockResolvedValueOnce({ id: 'chat_1', latestVersion: { id: 'v1', status: 'completed' } })
+            .mockResolvedValueOnce({ id: 'chat_1', latestVersion: { id: 'v2', status: 'pending' } })
+            .mockResolvedValueOnce({ id: 'chat_1', latestVersion: { id: 'v2', status: 'completed' } })
+        const program = makeProgram()
+        await program.parseAsync(['chat', 'message', 'chat_1', 'Hello', '--wait', '--poll-interval', '0.001'], { from: 'user' })
+        expect(chatsMock.getById).toHaveBeenCalledTimes(3)
+    })
+
+    it('chat create --wait exits non-zero when the version fails', async () => {
+        ; (chatsMock.getById as any).mockResolvedValueOnce({ id: 'chat_1', latestVersion: { id: 'v1', status: 'failed' } })
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+        const program = makeProgram()
+        await program.parseAsync(['chat', 'create', 'Hello', '--wait'], { from: 'user' })
+        expect(chatsMock.create).toHaveBeenCalled()
+        expect(exitSpy).toHaveBeenCalledWith(1)
+        exitSpy.mockRestore()
+    })
+
     it('chat resume invokes SDK', async () => {
         const program = makeProgram()
         await program.parseAsync(['chat', 'resume', 'chat_1', 'm1'], { from: 'user' })
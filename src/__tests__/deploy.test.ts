@@ -1,8 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
 import { Command } from 'commander'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { createServer } from 'http'
+import { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import inquirer from 'inquirer'
 import { deployCommand } from '../commands/deploy.js'
 
+const configDir = mkdtempSync(join(tmpdir(), 'v0-deploy-config-'))
+
 vi.mock('../utils/config.js', () => ({
+    getConfigDir: vi.fn(() => configDir),
+    getChecks: vi.fn(() => []),
     ensureApiKey: vi.fn(async () => 'test-key'),
     getConfig: vi.fn(() => ({ apiKey: 'test-key', defaultProject: 'proj_1', baseUrl: '', outputFormat: 'json' })),
     resolveBaseUrl: vi.fn((preferred?: string) => preferred || process.env.V0_BASE_URL || ''),
@@ -27,6 +37,13 @@ const chatsMock = {
     find: vi.fn(async () => ({ object: 'list', data: [{ id: 'chat_1', object: 'chat', shareable: true, privacy: 'private', favorite: false, authorId: 'u1', createdAt: new Date().toISOString(), apiUrl: '', webUrl: '' }] })),
     getById: vi.fn(async () => ({ id: 'chat_1', object: 'chat', shareable: true, privacy: 'private', favorite: false, authorId: 'u1', createdAt: new Date().toISOString(), apiUrl: '', webUrl: '', text: '', latestVersion: { id: 'v1', object: 'version', status: 'completed', createdAt: new Date().toISOString(), files: [] } })),
     create: vi.fn(async () => ({ id: 'chat_X', webUrl: 'https://chat', latestVersion: { id: 'vX' } })),
+    init: vi.fn(async (body: any) => ({ id: 'chat_L', name: body.name, webUrl: 'https://chat' })),
+    findVersions: vi.fn(async () => ({
+        object: 'list',
+        data: ['v3', 'v2', 'v1'].map((id) => ({ id, object: 'version', status: 'completed', createdAt: new Date().toISOString() })),
+        pagination: { hasMore: false },
+    })),
+    getVersion: vi.fn(async ({ versionId }: any) => ({ id: versionId, object: 'version', status: 'completed', files: [] })),
 }
 
 vi.mock('v0-sdk', () => {
@@ -44,6 +61,10 @@ beforeEach(() => {
     vi.clearAllMocks()
 })
 
+afterAll(() => {
+    rmSync(configDir, { recursive: true, force: true })
+})
+
 describe('deploy commands', () => {
     it('list calls deployments.find with provided ids', async () => {
         const program = makeProgram()
@@ -90,6 +111,230 @@ describe('deploy commands', () => {
         expect(deploymentsMock.findLogs).toHaveBeenCalledWith({ deploymentId: 'd1', since: '100' })
     })
 
+    it('logs honors --output and --grep', async () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const program = makeProgram()
+        await program.parseAsync(['deploy', 'logs', 'd1', '--grep', 'log2', '-o', 'ndjson'], { from: 'user' })
+        expect(logSpy.mock.calls.map((c) => JSON.parse(c[0]).message)).toEqual(['log2'])
+        logSpy.mockRestore()
+    })
+
+    it('logs --follow rejects json and yaml output', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        try {
+            await expect(makeProgram().parseAsync(['deploy', 'logs', 'd1', '--follow', '-o', 'yaml'], { from: 'user' })).rejects.toThrow('exit')
+            expect(deploymentsMock.findLogs).not.toHaveBeenCalled()
+            expect(errorSpy.mock.calls.flat().join(' ')).toContain('Use --output ndjson or table')
+        } finally {
+            exitSpy.mockRestore()
+            errorSpy.mockRestore()
+        }
+    })
+
+    it('logs --follow removes its Ctrl-C handler when polling fails', async () => {
+        ; (deploymentsMock.findLogs as any).mockRejectedValueOnce(new Error('HTTP 500: oops'))
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const listeners = process.listenerCount('SIGINT')
+        try {
+            await expect(makeProgram().parseAsync(['deploy', 'logs', 'd1', '--follow', '-o', 'ndjson'], { from: 'user' })).rejects.toThrow('exit')
+            expect(process.listenerCount('SIGINT')).toBe(listeners)
+        } finally {
+            exitSpy.mockRestore()
+        }
+    })
+
+    it('wait exits with code 2 and prints formattedError when the build fails', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const program = makeProgram()
+        await program.parseAsync(['deploy', 'wait', 'd1', '--poll-interval', '0.001'], { from: 'user' })
+        expect(deploymentsMock.findErrors).toHaveBeenCalledWith({ deploymentId: 'd1' })
+        expect(JSON.parse(logSpy.mock.calls[0][0])).toMatchObject({ id: 'd1', status: 'failed', error: 'Boom' })
+        expect(exitSpy).toHaveBeenCalledWith(2)
+        logSpy.mockRestore()
+        exitSpy.mockRestore()
+    })
+
+    it('create --wait exits with code 3 on timeout', async () => {
+        ; (deploymentsMock.findErrors as any).mockResolvedValueOnce({})
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+        const program = makeProgram()
+        await program.parseAsync(['deploy', 'create', 'proj_1', 'chat_1', 'v1', '--wait', '--timeout', '0'], { from: 'user' })
+        expect(deploymentsMock.findLogs).toHaveBeenCalledWith({ deploymentId: 'd2', since: undefined })
+        expect(exitSpy).toHaveBeenCalledWith(3)
+        exitSpy.mockRestore()
+    })
+
+    it('create --wait rejects an invalid --timeout before deploying', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        try {
+            await expect(makeProgram().parseAsync(['deploy', 'create', 'proj_1', 'chat_1', 'v1', '--wait', '--timeout', 'abc'], { from: 'user' })).rejects.toThrow('exit')
+            expect(deploymentsMock.create).not.toHaveBeenCalled()
+            expect(errorSpy.mock.calls.flat().join(' ')).toContain('Invalid --timeout value: abc')
+        } finally {
+            exitSpy.mockRestore()
+            errorSpy.mockRestore()
+        }
+    })
+
+    it('wait --check runs smoke checks against the live deployment and exits 4 on failure', async () => {
+        const server = createServer((req, res) => {
+            res.statusCode = req.url === '/health' ? 200 : 500
+            res.end('ok')
+        })
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        const webUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        ; (deploymentsMock.getById as any).mockResolvedValueOnce({ id: 'd1', object: 'deployment', inspectorUrl: '', chatId: 'chat_1', projectId: 'proj_1', versionId: 'v1', apiUrl: '', webUrl, status: 'ready' })
+        ; (deploymentsMock.findErrors as any).mockResolvedValueOnce({})
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['deploy', 'wait', 'd1', '--check', '/health=200~ok', '/'], { from: 'user' })
+            const output = JSON.parse(logSpy.mock.calls[0][0])
+            expect(output.checks.map((c: any) => [c.check, c.ok])).toEqual([['/health=200~ok', true], ['/', false]])
+            expect(exitSpy).toHaveBeenCalledWith(4)
+        } finally {
+            logSpy.mockRestore()
+            exitSpy.mockRestore()
+            server.close()
+        }
+    })
+
+    it('local uploads the directory with its paths and deploys the new chat', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'v0-local-'))
+        mkdirSync(join(dir, 'app'))
+        writeFileSync(join(dir, 'package.json'), '{}')
+        writeFileSync(join(dir, 'app', 'page.tsx'), 'export default function Page() {}')
+        try {
+            await makeProgram().parseAsync(['deploy', 'local', dir, '-n', 'site', '--poll-interval', '0.001'], { from: 'user' })
+            expect(projectsMock.getById).toHaveBeenCalledWith({ projectId: 'proj_1' })
+            const body = (chatsMock.init as any).mock.calls[0][0]
+            expect(body).toMatchObject({ type: 'files', name: 'site', projectId: 'proj_1' })
+            expect(body.files.map((f: any) => f.name).sort()).toEqual(['app/page.tsx', 'package.json'])
+            expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_L', versionId: 'v1' })
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('local rejects a --max-file-size that is not a number', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        try {
+            await expect(makeProgram().parseAsync(['deploy', 'local', '.', '--max-file-size', 'lots'], { from: 'user' })).rejects.toThrow('exit')
+            expect(chatsMock.init).not.toHaveBeenCalled()
+            expect(errorSpy.mock.calls.flat().join(' ')).toContain('Invalid --max-file-size value: lots')
+        } finally {
+            errorSpy.mockRestore()
+            exitSpy.mockRestore()
+        }
+    })
+
+    it('apply deploys the manifest version and skips it once deployed', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'v0-apply-'))
+        const file = join(dir, 'v0.deploy.yaml')
+        writeFileSync(file, 'project:\n  id: proj_1\nchat:\n  id: chat_1\nversion: latest\n')
+
+        ; (deploymentsMock.find as any).mockResolvedValueOnce({ object: 'list', data: [] })
+        await makeProgram().parseAsync(['deploy', 'apply', '-f', file, '--dry-run'], { from: 'user' })
+        expect(deploymentsMock.create).not.toHaveBeenCalled()
+
+        ; (deploymentsMock.find as any).mockResolvedValueOnce({ object: 'list', data: [] })
+        await makeProgram().parseAsync(['deploy', 'apply', '-f', file, '--yes'], { from: 'user' })
+        expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v1' })
+
+        // The default find mock already returns a deployment of v1
+        await makeProgram().parseAsync(['deploy', 'apply', '-f', file, '--yes'], { from: 'user' })
+        expect(deploymentsMock.create).toHaveBeenCalledTimes(1)
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('create offers a version picker when the version is missing', async () => {
+        ; (inquirer.prompt as any).mockResolvedValueOnce({ versionId: 'v2' })
+        await makeProgram().parseAsync(['deploy', 'create', 'proj_1', 'chat_1', '-o', 'json'], { from: 'user' })
+        const question = (inquirer.prompt as any).mock.calls[0][0][0]
+        expect(question.choices.map((c: any) => c.value)).toEqual(['v3', 'v2', 'v1'])
+        expect(question.choices[0].name).toContain('(latest)')
+        expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v2' })
+    })
+
+    it('rollback redeploys the previously deployed version', async () => {
+        rmSync(join(configDir, 'deployments.jsonl'), { force: true })
+        // v3 is live, v2 was never deployed, v1 was deployed before v3
+        ; (deploymentsMock.find as any)
+            .mockResolvedValueOnce({ object: 'list', data: [{ id: 'd3', versionId: 'v3' }] })
+            .mockResolvedValueOnce({ object: 'list', data: [] })
+            .mockResolvedValueOnce({ object: 'list', data: [{ id: 'd1', versionId: 'v1' }] })
+        await makeProgram().parseAsync(['deploy', 'rollback', '--project-id', 'proj_1', '--chat-id', 'chat_1', '--force', '-o', 'json'], { from: 'user' })
+        expect(deploymentsMock.find).toHaveBeenCalledTimes(3)
+        expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v1' })
+    })
+
+    it('rollback after a rollback steps back from the redeployed version', async () => {
+        rmSync(join(configDir, 'deployments.jsonl'), { force: true })
+        // v3, v2 and v1 were all deployed; the first rollback redeploys v2 as d2
+        const live: Record<string, string> = { v3: 'd3', v2: 'd2', v1: 'd1' }
+        const defaultFind = deploymentsMock.find.getMockImplementation()
+        ; (deploymentsMock.find as any).mockImplementation(async ({ versionId }: any) => ({ object: 'list', data: [{ id: live[versionId], versionId }] }))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['deploy', 'rollback', '--project-id', 'proj_1', '--chat-id', 'chat_1', '--force', '-o', 'json'], { from: 'user' })
+            expect(deploymentsMock.create).toHaveBeenLastCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v2' })
+
+            await makeProgram().parseAsync(['deploy', 'rollback', '--project-id', 'proj_1', '--chat-id', 'chat_1', '--force', '-o', 'json'], { from: 'user' })
+            expect(deploymentsMock.create).toHaveBeenLastCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v1' })
+            const outputs = logSpy.mock.calls.map(([line]) => String(line)).filter((line) => line.startsWith('{'))
+            expect(outputs.map((line) => JSON.parse(line).rolledBackFrom)).toEqual(['v3', 'v2'])
+        } finally {
+            logSpy.mockRestore()
+            deploymentsMock.find.mockImplementation(defaultFind!)
+        }
+    })
+
+    it('rollback refuses to guess when the ledger\'s last deployment is gone', async () => {
+        // The earlier tests recorded d2 for chat_1, which find no longer returns
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        try {
+            await expect(makeProgram().parseAsync(['deploy', 'rollback', '--project-id', 'proj_1', '--chat-id', 'chat_1', '--force', '-o', 'json'], { from: 'user' })).rejects.toThrow('exit')
+            expect(deploymentsMock.create).not.toHaveBeenCalled()
+
+            exitSpy.mockRestore()
+            await makeProgram().parseAsync(['deploy', 'rollback', '--project-id', 'proj_1', '--chat-id', 'chat_1', '--to', 'v1', '--force', '-o', 'json'], { from: 'user' })
+            expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v1' })
+        } finally {
+            exitSpy.mockRestore()
+        }
+    })
+
+    it('fix exits with code 2 when the attempt budget is spent', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await makeProgram().parseAsync(['deploy', 'fix', 'd1', '--max-attempts', '0', '-o', 'json'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0])).toMatchObject({ status: 'failed', attempts: [{ attempt: 0, deploymentId: 'd1', error: 'Boom' }] })
+        expect(exitSpy).toHaveBeenCalledWith(2)
+        logSpy.mockRestore()
+        exitSpy.mockRestore()
+    })
+
+    it('records created deployments in the local ledger', async () => {
+        rmSync(join(configDir, 'deployments.jsonl'), { force: true })
+        await makeProgram().parseAsync(['deploy', 'create', 'proj_1', 'chat_1', 'v1', '-o', 'json', '--note', 'Launch day', '--tag', 'prod', 'v1.0'], { from: 'user' })
+        await makeProgram().parseAsync(['deploy', 'from-chat', 'chat_1', '--project-id', 'proj_1', '-o', 'json'], { from: 'user' })
+
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await makeProgram().parseAsync(['deploy', 'ledger', 'search', 'launch', '-o', 'json'], { from: 'user' })
+        const found = JSON.parse(logSpy.mock.calls[0][0])
+        expect(found).toHaveLength(1)
+        expect(found[0]).toMatchObject({ deploymentId: 'd2', source: 'create', note: 'Launch day', tags: ['prod', 'v1.0'], webUrl: 'https://web' })
+
+        logSpy.mockClear()
+        await makeProgram().parseAsync(['deploy', 'ledger', 'list', '-o', 'json'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0]).map((e: any) => e.source)).toEqual(['from-chat', 'create'])
+        logSpy.mockRestore()
+    })
+
     it('errors calls deployments.findErrors', async () => {
         const program = makeProgram()
         await program.parseAsync(['deploy', 'errors', 'd1', '-o', 'json'], { from: 'user' })
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { collectDeploymentHistory, findRollbackTarget, parseSince, sortHistory } from '../utils/deployments.js'
+
+const chat = (id: string, name: string) => ({ id, name, object: 'chat' })
+const version = (id: string, createdAt: string) => ({ id, object: 'version', status: 'completed', createdAt })
+
+const projects: Record<string, any> = {
+    p1: { id: 'p1', name: 'Shop', vercelProjectId: 'vp1', chats: [chat('c1', 'Storefront'), chat('c2', 'Admin')] },
+    p2: { id: 'p2', name: 'Blog', vercelProjectId: 'vp2', chats: [chat('c3', 'Posts')] },
+    p3: { id: 'p3', name: 'Drafts', chats: [chat('c4', 'Ideas')] },
+}
+const versions: Record<string, any[]> = {
+    c1: [version('v12', '2024-03-10T00:00:00Z'), version('v11', '2024-03-01T00:00:00Z'), version('v10', '2024-02-01T00:00:00Z')],
+    c2: [version('v20', '2024-03-05T00:00:00Z')],
+    c3: [version('v30', '2024-03-08T00:00:00Z')],
+    c4: [version('v40', '2024-03-09T00:00:00Z')],
+}
+const deployed = new Set(['v12', 'v10', 'v20', 'v30', 'v40'])
+
+const v0 = {
+    projects: {
+        find: vi.fn(async () => ({ data: Object.values(projects).map(({ id, name }) => ({ id, name })) })),
+        getById: vi.fn(async ({ projectId }: any) => projects[projectId]),
+    },
+    chats: {
+        findVersions: vi.fn(async ({ chatId }: any) => ({ data: versions[chatId], pagination: { hasMore: false } })),
+    },
+    deployments: {
+        find: vi.fn(async ({ versionId }: any) => ({
+            data: deployed.has(versionId) ? [{ id: `d_${versionId}`, versionId, webUrl: `https://${versionId}`, inspectorUrl: '' }] : [],
+        })),
+    },
+} as any
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('parseSince', () => {
+    const now = new Date('2024-03-10T12:00:00Z')
+
+    it('accepts durations and dates', () => {
+        expect(parseSince('7d', now).toISOString()).toBe('2024-03-03T12:00:00.000Z')
+        expect(parseSince('30m', now).toISOString()).toBe('2024-03-10T11:30:00.000Z')
+        expect(parseSince('2024-03-01').toISOString()).toBe('2024-03-01T00:00:00.000Z')
+    })
+
+    it('rejects anything else', () => {
+        expect(() => parseSince('last week')).toThrow(/Invalid --since value "last week"/)
+    })
+})
+
+describe('collectDeploymentHistory', () => {
+    it('walks linked projects, chats and versions', async () => {
+        const progress = vi.fn()
+        const entries = await collectDeploymentHistory(v0, { concurrency: 2, onProgress: progress })
+        expect(entries.map((e) => e.deploymentId).sort()).toEqual(['d_v10', 'd_v12', 'd_v20', 'd_v30'])
+        expect(entries.find((e) => e.versionId === 'v20')).toMatchObject({ projectName: 'Shop', chatName: 'Admin', webUrl: 'https://v20' })
+        // p3 is not linked to Vercel, so its chats are never scanned
+        expect(v0.chats.findVersions).not.toHaveBeenCalledWith(expect.objectContaining({ chatId: 'c4' }))
+        expect(progress).toHaveBeenLastCalledWith(3, 3)
+    })
+
+    it('filters by project and stops at versions older than --since', async () => {
+        const entries = await collectDeploymentHistory(v0, { project: 'shop', since: new Date('2024-02-15T00:00:00Z') })
+        expect(entries.map((e) => e.versionId).sort()).toEqual(['v12', 'v20'])
+        expect(v0.deployments.find).not.toHaveBeenCalledWith(expect.objectContaining({ versionId: 'v10' }))
+    })
+
+    it('sorts newest first or by name', async () => {
+        const entries = await collectDeploymentHistory(v0)
+        expect(sortHistory(entries).map((e) => e.versionId)).toEqual(['v12', 'v30', 'v20', 'v10'])
+        expect(sortHistory(entries, 'project').map((e) => e.versionId)).toEqual(['v30', 'v12', 'v20', 'v10'])
+    })
+})
+
+describe('findRollbackTarget', () => {
+    it('skips versions that were never deployed', async () => {
+        const target = await findRollbackTarget(v0, 'p1', 'c1')
+        expect(target.current?.version.id).toBe('v12')
+        expect(target.previous?.version.id).toBe('v10')
+    })
+
+    it('treats the version of the live deployment as current after a rollback', async () => {
+        const target = await findRollbackTarget(v0, 'p1', 'c1', 'd_v10')
+        expect(target.current?.version.id).toBe('v10')
+        expect(target.previous).toBeUndefined()
+    })
+
+    it('does not guess when the live deployment is gone', async () => {
+        const target = await findRollbackTarget(v0, 'p1', 'c1', 'd_deleted')
+        expect(target).toEqual({ staleLedger: true })
+    })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_DIFF_LINES, diffFile, diffVersions } from '../utils/diff.js'
+
+describe('version diff', () => {
+    it('builds unified hunks with context around changes', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n'
+        const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10', '11'].join('\n') + '\n'
+        const patch = diffFile('a.ts', before, after)!
+        expect(patch).toMatchObject({ status: 'modified', additions: 2, deletions: 1 })
+        expect(patch.hunks).toEqual([{
+            oldStart: 2,
+            oldLines: 9,
+            newStart: 2,
+            newLines: 10,
+            lines: [' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8', ' 9', ' 10', '+11'],
+        }])
+    })
+
+    it('splits distant changes into separate hunks', () => {
+        const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+        const changed = [...lines]
+        changed[0] = 'first'
+        changed[19] = 'last'
+        const patch = diffFile('a.ts', lines.join('\n'), changed.join('\n'))!
+        expect(patch.hunks.map((h) => [h.oldStart, h.oldLines])).toEqual([[1, 4], [17, 4]])
+    })
+
+    it('reports added, removed and modified files and skips unchanged ones', () => {
+        const patch = diffVersions(
+            { id: 'v1', files: [{ name: 'b.ts', content: 'x\n' }, { name: 'same.ts', content: 's\n' }, { name: 'gone.ts', content: 'g\n' }] },
+            { id: 'v2', files: [{ name: 'b.ts', content: 'y\n' }, { name: 'same.ts', content: 's\n' }, { name: 'a.ts', content: 'a\n' }] },
+        )
+        expect(patch.from).toBe('v1')
+        expect(patch.to).toBe('v2')
+        expect(patch.files.map((f) => [f.name, f.status])).toEqual([
+            ['a.ts', 'added'],
+            ['b.ts', 'modified'],
+            ['gone.ts', 'removed'],
+        ])
+        const removed = patch.files[2]
+        expect(removed.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0, lines: ['-g'] })
+    })
+
+    it('diffs a large fully rewritten file without running out of memory', () => {
+        const before = Array.from({ length: 5000 }, (_, i) => `old ${i}`).join('\n')
+        const after = Array.from({ length: 5000 }, (_, i) => `new ${i}`).join('\n')
+        const patch = diffFile('big.ts', before, after)!
+        expect(patch).toMatchObject({ additions: 5000, deletions: 5000 })
+        expect(patch.hunks).toHaveLength(1)
+        expect(patch.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5000, newStart: 1, newLines: 5000 })
+    })
+
+    it('falls back to a whole-file replace above the line cap', () => {
+        const size = MAX_DIFF_LINES / 2 + 1
+        const before = Array.from({ length: size }, (_, i) => (i % 2 ? `same ${i}` : `old ${i}`)).join('\n')
+        const after = Array.from({ length: size }, (_, i) => (i % 2 ? `same ${i}` : `new ${i}`)).join('\n')
+        const patch = diffFile('huge.ts', before, after)!
+        expect(patch).toMatchObject({ additions: size, deletions: size })
+        expect(patch.hunks[0].lines.slice(0, 2)).toEqual(['-old 0', '-same 1'])
+        expect(patch.hunks[0].lines[size]).toBe('+new 0')
+    })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { diffEnv, envChangeRows, formatDotenv, parseDotenv, parseEnvPairs, planEnvChanges, planEnvSync } from '../utils/env.js'
+
+const envVar = (id: string, key: string, value: string, decrypted = true) => ({ id, object: 'environment_variable' as const, key, value, decrypted, createdAt: 0 })
+
+describe('parseDotenv', () => {
+    it('handles comments, export prefixes, quotes and inline comments', () => {
+        const vars = parseDotenv([
+            '# database',
+            'export DB_URL=postgres://u:p@host/db',
+            '',
+            'NAME = "Jane \\"JD\\" Doe"  # quoted',
+            "RAW='no $expansion \\n here'",
+            'PORT=3000 # inline comment',
+            'HASH=abc#def',
+            'EMPTY=',
+            'TICK=`a "b" \'c\'`',
+        ].join('\n'))
+        expect(vars).toEqual({
+            DB_URL: 'postgres://u:p@host/db',
+            NAME: 'Jane "JD" Doe',
+            RAW: 'no $expansion \\n here',
+            PORT: '3000',
+            HASH: 'abc#def',
+            EMPTY: '',
+            TICK: 'a "b" \'c\'',
+        })
+    })
+
+    it('reads multiline values and escapes in double quotes', () => {
+        const vars = parseDotenv('KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nESCAPED="a\\nb"\r\nNEXT=1\n')
+        expect(vars.KEY).toBe('-----BEGIN KEY-----\nabc\n-----END KEY-----')
+        expect(vars.ESCAPED).toBe('a\nb')
+        expect(vars.NEXT).toBe('1')
+    })
+
+    it('reports every malformed line', () => {
+        expect(() => parseDotenv('GOOD=1\nnot a pair\n1BAD=2\nOPEN="never closed\n', 'prod.env')).toThrow(
+            'Invalid prod.env:\n  - line 2: expected KEY=VALUE\n  - line 3: invalid key "1BAD" (use letters, digits and "_", not starting with a digit)\n  - line 4: OPEN has no closing "',
+        )
+    })
+})
+
+describe('formatDotenv', () => {
+    it('round-trips through parseDotenv', () => {
+        const pairs = [
+            { key: 'PLAIN', value: 'https://example.com/a?b=c' },
+            { key: 'SPACES', value: 'hello world' },
+            { key: 'MULTI', value: 'line 1\nline "2"\\n' },
+            { key: 'EMPTY', value: '' },
+        ]
+        const text = formatDotenv(pairs)
+        expect(text).toContain('PLAIN=https://example.com/a?b=c\n')
+        expect(parseDotenv(text)).toEqual(Object.fromEntries(pairs.map((p) => [p.key, p.value])))
+    })
+})
+
+describe('parseEnvPairs', () => {
+    it('rejects pairs without "=" or a key instead of dropping them', () => {
+        expect(parseEnvPairs(['A=1', 'B=x=y'])).toEqual([{ key: 'A', value: '1' }, { key: 'B', value: 'x=y' }])
+        expect(() => parseEnvPairs(['A=1', 'oops'])).toThrow('Invalid --var "oops". Use KEY=VALUE')
+        expect(() => parseEnvPairs(['=1'], '--env')).toThrow('Invalid --env "=1". Use KEY=VALUE')
+    })
+})
+
+describe('planEnvChanges', () => {
+    const existing = [envVar('e1', 'SAME', '1'), envVar('e2', 'CHANGED', 'old'), envVar('e3', 'SECRET', 'xxx', false)]
+    const wanted = { SAME: '1', CHANGED: 'new', SECRET: 's', NEW: 'n' }
+
+    it('skips existing keys unless upserting', () => {
+        const changes = planEnvChanges(existing, wanted)
+        expect(changes.creates).toEqual([{ key: 'NEW', value: 'n' }])
+        expect(changes.updates).toEqual([])
+        expect(envChangeRows(changes).map((r) => `${r.key}:${r.result}`)).toEqual(['NEW:added', 'SAME:skipped', 'CHANGED:skipped', 'SECRET:skipped'])
+    })
+
+    it('updates changed and undecryptable keys with upsert', () => {
+        const changes = planEnvChanges(existing, wanted, true)
+        expect(changes.updates).toEqual([{ id: 'e2', key: 'CHANGED', value: 'new' }, { id: 'e3', key: 'SECRET', value: 's' }])
+        expect(changes.skipped).toEqual([{ key: 'SAME', reason: 'unchanged' }])
+    })
+})
+
+describe('diffEnv', () => {
+    it('classifies every key from both sides', () => {
+        const left = { label: 'a', vars: { SAME: '1', CHANGED: 'x', SECRET: undefined, LEFT: 'l' } }
+        const right = { label: 'b', vars: { SAME: '1', CHANGED: 'y', SECRET: 's', RIGHT: 'r' } }
+        expect(diffEnv(left, right).map((e) => `${e.key}:${e.status}`)).toEqual([
+            'CHANGED:changed', 'LEFT:only-left', 'RIGHT:only-right', 'SAME:same', 'SECRET:unknown',
+        ])
+    })
+})
+
+describe('planEnvSync', () => {
+    const target = [envVar('e1', 'SAME', '1'), envVar('e2', 'CHANGED', 'old'), envVar('e3', 'EXTRA', 'x')]
+    const source = { label: 'prod', vars: { SAME: '1', CHANGED: 'new', NEW: 'n', SECRET: undefined } }
+
+    it('creates and updates without touching extra keys', () => {
+        const changes = planEnvSync(target, source)
+        expect(changes.creates).toEqual([{ key: 'NEW', value: 'n' }])
+        expect(changes.updates).toEqual([{ id: 'e2', key: 'CHANGED', value: 'new' }])
+        expect(changes.deletes).toEqual([])
+        expect(changes.skipped).toEqual([{ key: 'SAME', reason: 'unchanged' }, { key: 'SECRET', reason: 'source value is encrypted' }])
+    })
+
+    it('deletes keys missing from the source with prune', () => {
+        expect(planEnvSync(target, source, true).deletes).toEqual([{ id: 'e3', key: 'EXTRA' }])
+    })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { formatFixMessage, runFixLoop } from '../utils/fix.js'
+
+const deployment = (id: string, versionId: string) => ({ id, object: 'deployment', projectId: 'p1', chatId: 'c1', versionId, webUrl: `https://${id}`, inspectorUrl: '', apiUrl: '' })
+const broken = { error: 'Build failed', errorType: 'ModuleNotFound', formattedError: "Module not found: Can't resolve './Button'", fullErrorText: 'long log\nModule not found' }
+
+const v0 = {
+    chats: { getById: vi.fn(), sendMessage: vi.fn(async () => ({})) },
+    deployments: {
+        getById: vi.fn(async ({ deploymentId }: any) => deployment(deploymentId, deploymentId === 'd1' ? 'v1' : 'v2')),
+        findErrors: vi.fn(),
+        findLogs: vi.fn(async () => ({ logs: [] })),
+        create: vi.fn(async (body: any) => ({ ...deployment('d2', body.versionId) })),
+    },
+} as any
+
+const fast = { deploymentWait: { pollIntervalMs: 1, timeoutMs: 5000 }, versionWait: { pollIntervalMs: 1, timeoutMs: 5000 } }
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    v0.chats.getById
+        .mockResolvedValueOnce({ id: 'c1', latestVersion: { id: 'v1', status: 'completed' } })
+        .mockResolvedValue({ id: 'c1', latestVersion: { id: 'v2', status: 'completed' } })
+})
+
+describe('formatFixMessage', () => {
+    it('includes the error type, message and build output', () => {
+        const message = formatFixMessage(broken, 'v1')
+        expect(message).toContain('version v1 failed to build')
+        expect(message).toContain('Error type: ModuleNotFound')
+        expect(message).toContain('Error: Build failed')
+        expect(message).toContain('```\nlong log\nModule not found\n```')
+    })
+
+    it('keeps the end of very long build output', () => {
+        const message = formatFixMessage({ fullErrorText: 'x'.repeat(10000) + 'THE ERROR' }, 'v1')
+        expect(message).toContain('THE ERROR')
+        expect(message.length).toBeLessThan(8300)
+    })
+})
+
+describe('runFixLoop', () => {
+    it('sends the errors to the chat and redeploys the fixed version', async () => {
+        v0.deployments.findErrors.mockImplementation(async ({ deploymentId }: any) => deploymentId === 'd1' ? broken : {})
+        const result = await runFixLoop(v0, 'd1', fast)
+        expect(result.status).toBe('ready')
+        expect(result.attempts.map((a) => `${a.attempt}:${a.deploymentId}:${a.status}`)).toEqual(['0:d1:failed', '1:d2:ready'])
+        expect(result.attempts[0].error).toBe("Module not found: Can't resolve './Button'")
+        expect(v0.chats.sendMessage).toHaveBeenCalledWith({ chatId: 'c1', message: expect.stringContaining('ModuleNotFound') })
+        expect(v0.deployments.create).toHaveBeenCalledWith({ projectId: 'p1', chatId: 'c1', versionId: 'v2' })
+    })
+
+    it('stops when the attempt budget runs out', async () => {
+        v0.deployments.findErrors.mockResolvedValue(broken)
+        const result = await runFixLoop(v0, 'd1', { ...fast, maxAttempts: 1 })
+        expect(result.status).toBe('failed')
+        expect(result.reason).toBe('Still failing after 1 fix attempt(s)')
+        expect(result.attempts).toHaveLength(2)
+        expect(v0.chats.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('does nothing when the deployment is already live', async () => {
+        v0.deployments.findErrors.mockResolvedValue({})
+        const result = await runFixLoop(v0, 'd1', fast)
+        expect(result.status).toBe('ready')
+        expect(v0.chats.sendMessage).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execFileSync } from 'child_process'
+import { buildLedgerEntry, filterLedger, readLedger, recordDeployment, renderLedger } from '../utils/ledger.js'
+
+const dir = mkdtempSync(join(tmpdir(), 'v0-ledger-'))
+const deployment = (id: string, versionId: string) => ({ id, projectId: 'p1', chatId: 'c1', versionId, webUrl: `https://${id}.vercel.app`, inspectorUrl: `https://inspect/${id}` })
+
+afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+})
+
+describe('deployment ledger', () => {
+    it('records the git commit of the working directory', () => {
+        const repo = join(dir, 'repo')
+        execFileSync('git', ['init', '-q', repo])
+        writeFileSync(join(repo, 'a.txt'), 'a')
+        const git = (...args: string[]) => execFileSync('git', ['-c', 'user.email=t@example.com', '-c', 'user.name=t', ...args], { cwd: repo, encoding: 'utf8' }).trim()
+        git('add', '.')
+        git('commit', '-qm', 'init')
+
+        const entry = buildLedgerEntry(deployment('d1', 'v1'), 'create', { note: 'launch', tags: ['prod'] }, repo)
+        expect(entry).toMatchObject({ deploymentId: 'd1', source: 'create', gitCommit: git('rev-parse', 'HEAD'), gitDirty: false, note: 'launch', tags: ['prod'] })
+        expect(entry.user).toBeTruthy()
+
+        writeFileSync(join(repo, 'a.txt'), 'changed')
+        expect(buildLedgerEntry(deployment('d1', 'v1'), 'create', {}, repo).gitDirty).toBe(true)
+        expect(buildLedgerEntry(deployment('d1', 'v1'), 'create', {}, dir).gitCommit).toBeUndefined()
+    })
+
+    it('appends entries and skips corrupt lines when reading', () => {
+        const path = join(dir, 'deployments.jsonl')
+        recordDeployment(deployment('d1', 'v1'), 'create', { tags: ['prod'] }, path)
+        appendFileSync(path, '{"truncated\n')
+        recordDeployment(deployment('d2', 'v2'), 'rollback', { note: 'Revert checkout bug' }, path)
+        expect(readLedger(path).map((e) => e.deploymentId)).toEqual(['d1', 'd2'])
+        expect(readLedger(join(dir, 'missing.jsonl'))).toEqual([])
+    })
+
+    it('filters by text, tag, project and time', () => {
+        const entries = [
+            { ...buildLedgerEntry(deployment('d1', 'v1'), 'create', { tags: ['prod'] }, dir), recordedAt: '2024-01-01T00:00:00Z' },
+            { ...buildLedgerEntry(deployment('d2', 'v2'), 'rollback', { note: 'Revert checkout bug' }, dir), recordedAt: '2024-02-01T00:00:00Z' },
+        ]
+        expect(filterLedger(entries, { query: 'CHECKOUT' }).map((e) => e.deploymentId)).toEqual(['d2'])
+        expect(filterLedger(entries, { tag: 'prod' }).map((e) => e.deploymentId)).toEqual(['d1'])
+        expect(filterLedger(entries, { project: 'other' })).toEqual([])
+        expect(filterLedger(entries, { since: new Date('2024-01-15') }).map((e) => e.deploymentId)).toEqual(['d2'])
+    })
+
+    it('exports csv with quoted cells', () => {
+        const entry = { ...buildLedgerEntry(deployment('d1', 'v1'), 'create', { note: 'says "hi", twice', tags: ['a', 'b'] }, dir), recordedAt: 'T' }
+        const [header, row] = renderLedger([entry], 'csv').trim().split('\n')
+        expect(header.split(',')[0]).toBe('recordedAt')
+        expect(row).toContain('"says ""hi"", twice"')
+        expect(row).toContain(',a b')
+        expect(renderLedger([entry], 'ndjson')).toBe(JSON.stringify(entry) + '\n')
+    })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { detectLevel, followLogs } from '../utils/logs.js'
+
+const findLogs = vi.fn()
+const v0 = { deployments: { findLogs } } as any
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => { })
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+const printed = () => (console.log as any).mock.calls.map((c: any[]) => JSON.parse(c[0]))
+
+describe('followLogs', () => {
+    it('follows nextSince, drops lines repeated at the cursor and stops when the cursor ends', async () => {
+        findLogs
+            .mockResolvedValueOnce({ logs: ['Cloning', 'Installing'], nextSince: 10 })
+            .mockResolvedValueOnce({ logs: ['Installing', 'Warning: peer dep'], nextSince: 20 })
+            .mockResolvedValueOnce({ logs: ['Build Completed'] })
+        const result = await followLogs(v0, 'd1', { pollIntervalMs: 1, ndjson: true })
+        expect(result).toEqual({ lines: 4, aborted: false })
+        expect(findLogs.mock.calls.map((c) => c[0].since)).toEqual([undefined, '10', '20'])
+        expect(printed().map((e: any) => [e.level, e.message])).toEqual([
+            ['info', 'Cloning'],
+            ['info', 'Installing'],
+            ['warn', 'Warning: peer dep'],
+            ['info', 'Build Completed'],
+        ])
+    })
+
+    it('keeps lines that legitimately repeat', async () => {
+        findLogs
+            .mockResolvedValueOnce({ logs: ['GET /api 200', 'GET /api 200', 'GET /health 200'], nextSince: 10 })
+            .mockResolvedValueOnce({ logs: ['GET /health 200', 'GET /api 200'], nextSince: 20 })
+            // Only the first line repeats the previous batch's tail
+            .mockResolvedValueOnce({ logs: ['GET /api 200', 'GET /api 200'] })
+        const result = await followLogs(v0, 'd1', { pollIntervalMs: 1, ndjson: true })
+        expect(result.lines).toBe(5)
+        expect(printed().map((e: any) => e.message)).toEqual(['GET /api 200', 'GET /api 200', 'GET /health 200', 'GET /api 200', 'GET /api 200'])
+    })
+
+    it('filters with --grep and reports deployment errors', async () => {
+        findLogs.mockResolvedValueOnce({ logs: ['npm install', 'Error: build failed'], error: 'Build failed', nextSince: 5 })
+        const result = await followLogs(v0, 'd1', { pollIntervalMs: 1, ndjson: true, grep: /error/i })
+        expect(result.error).toBe('Build failed')
+        expect(printed().map((e: any) => e.message)).toEqual(['Error: build failed'])
+    })
+
+    it('stops when aborted', async () => {
+        const controller = new AbortController()
+        findLogs.mockImplementation(async () => {
+            controller.abort()
+            return { logs: [], nextSince: 1 }
+        })
+        const result = await followLogs(v0, 'd1', { pollIntervalMs: 60_000, signal: controller.signal })
+        expect(result.aborted).toBe(true)
+        expect(findLogs).toHaveBeenCalledTimes(1)
+    })
+
+    it('detects levels from the line text', () => {
+        expect(detectLevel('ERR! code ENOENT')).toBe('error')
+        expect(detectLevel('warning: deprecated')).toBe('warn')
+        expect(detectLevel('Compiled successfully')).toBe('info')
+    })
+})
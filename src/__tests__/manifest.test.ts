@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { applyPlan, countChanges, loadManifest, planManifest, validateManifest } from '../utils/manifest.js'
+import { tagVersion } from '../utils/version-tags.js'
+
+const configDir = mkdtempSync(join(tmpdir(), 'v0-manifest-'))
+
+vi.mock('../utils/config.js', () => ({
+    getConfigDir: vi.fn(() => configDir),
+}))
+
+const manifest = {
+    project: { name: 'Shop' },
+    chat: { id: 'chat_1' },
+    version: 'latest',
+    env: { API_URL: 'https://api.example.com', TOKEN: '${SHOP_TOKEN}', DEBUG: false },
+    hooks: [{ name: 'notify', url: 'https://hooks.example.com', events: ['chat.updated'] }],
+}
+
+const v0 = {
+    projects: {
+        find: vi.fn(),
+        getById: vi.fn(),
+        findEnvVars: vi.fn(),
+        createEnvVars: vi.fn(async () => ({ data: [] })),
+        updateEnvVars: vi.fn(async () => ({ data: [] })),
+    },
+    chats: { getById: vi.fn(), getVersion: vi.fn() },
+    hooks: { find: vi.fn(), getById: vi.fn(), create: vi.fn(), update: vi.fn() },
+    deployments: { find: vi.fn(), create: vi.fn(async (body: any) => ({ id: 'd1', webUrl: 'https://web', ...body })) },
+} as any
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    v0.projects.find.mockResolvedValue({ data: [{ id: 'proj_1', name: 'shop' }, { id: 'proj_2', name: 'Shop staging' }] })
+    v0.projects.getById.mockResolvedValue({ id: 'proj_1', name: 'shop', vercelProjectId: 'vp_1' })
+    v0.projects.findEnvVars.mockResolvedValue({ data: [] })
+    v0.chats.getById.mockResolvedValue({ id: 'chat_1', name: 'Storefront', latestVersion: { id: 'v2', status: 'completed' } })
+    v0.chats.getVersion.mockImplementation(async ({ versionId }: any) => ({ id: versionId, status: 'completed' }))
+    v0.hooks.find.mockResolvedValue({ data: [] })
+    v0.deployments.find.mockResolvedValue({ data: [] })
+})
+
+afterAll(() => {
+    rmSync(configDir, { recursive: true, force: true })
+})
+
+describe('validateManifest', () => {
+    it('normalizes a valid manifest and expands ${VAR} references', () => {
+        const result = validateManifest(manifest, 'v0.deploy.yaml', { SHOP_TOKEN: 'secret' })
+        expect(result.project).toEqual({ name: 'Shop' })
+        expect(result.version).toEqual({ kind: 'latest' })
+        expect(result.env).toEqual({ API_URL: 'https://api.example.com', TOKEN: 'secret', DEBUG: 'false' })
+        expect(result.hooks).toHaveLength(1)
+        expect(validateManifest({ ...manifest, env: undefined, version: 'tag:stable' }).version).toEqual({ kind: 'tag', tag: 'stable' })
+    })
+
+    it('reports every problem with its field path', () => {
+        const run = () => validateManifest({
+            project: { id: 'p1', name: 'Shop' },
+            chat: {},
+            version: 3,
+            env: { 'BAD-KEY': 'x', TOKEN: '${MISSING}' },
+            hooks: [{ name: 'h', url: 'ftp://x', events: ['chat.exploded'] }],
+            extra: true,
+        }, 'deploy.yaml', {})
+        expect(run).toThrow(/^Invalid manifest deploy\.yaml:/)
+        const message = (() => { try { run() } catch (err) { return (err as Error).message } })()!
+        expect(message).toContain('unknown key "extra"')
+        expect(message).toContain('project: use either "id" or "name", not both')
+        expect(message).toContain('chat: "id" or "name" is required')
+        expect(message).toContain('version: expected "latest"')
+        expect(message).toContain('env.BAD-KEY: invalid key')
+        expect(message).toContain('env.TOKEN: ${MISSING} is not set in the environment')
+        expect(message).toContain('hooks[0].url: expected an http(s) URL')
+        expect(message).toContain('hooks[0].events: unknown event "chat.exploded"')
+    })
+
+    it('loads YAML files and reports parse errors', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'v0-manifest-file-'))
+        const file = join(dir, 'v0.deploy.yaml')
+        writeFileSync(file, 'project:\n  id: proj_1\nchat:\n  name: Storefront\nversion: ver_9\n')
+        expect(loadManifest(file)).toMatchObject({ project: { id: 'proj_1' }, chat: { name: 'Storefront' }, version: { kind: 'id', id: 'ver_9' } })
+        writeFileSync(file, 'project: [unclosed\n')
+        expect(() => loadManifest(file)).toThrow(/Could not parse/)
+        expect(() => loadManifest(join(dir, 'missing.yaml'))).toThrow(/Manifest not found/)
+        rmSync(dir, { recursive: true, force: true })
+    })
+})
+
+describe('planManifest', () => {
+    it('plans creates for missing env vars, hooks and the deployment', async () => {
+        const plan = await planManifest(v0, validateManifest(manifest, 'm', { SHOP_TOKEN: 'secret' }))
+        expect(plan.project).toEqual({ id: 'proj_1', name: 'shop' })
+        expect(plan.versionId).toBe('v2')
+        expect(plan.steps.map((s) => `${s.action} ${s.resource} ${s.name}`)).toEqual([
+            'create env API_URL',
+            'create env TOKEN',
+            'create env DEBUG',
+            'create hook notify',
+            'create deployment v2',
+        ])
+
+        await applyPlan(v0, plan)
+        expect(v0.projects.createEnvVars).toHaveBeenCalledWith({
+            projectId: 'proj_1',
+            environmentVariables: [
+                { key: 'API_URL', value: 'https://api.example.com' },
+                { key: 'TOKEN', value: 'secret' },
+                { key: 'DEBUG', value: 'false' },
+            ],
+        })
+        expect(v0.hooks.create).toHaveBeenCalledWith({ name: 'notify', url: 'https://hooks.example.com', events: ['chat.updated'], projectId: 'proj_1' })
+        expect(v0.deployments.create).toHaveBeenCalledWith({ projectId: 'proj_1', chatId: 'chat_1', versionId: 'v2' })
+    })
+
+    it('is a no-op when the project already matches the manifest', async () => {
+        v0.projects.findEnvVars.mockResolvedValue({ data: [{ id: 'e1', key: 'API_URL', value: 'https://api.example.com' }] })
+        v0.hooks.find.mockResolvedValue({ data: [{ id: 'h1', name: 'notify' }] })
+        v0.hooks.getById.mockResolvedValue({ id: 'h1', name: 'notify', url: 'https://hooks.example.com', events: ['chat.updated'], projectId: 'proj_1' })
+        v0.deployments.find.mockResolvedValue({ data: [{ id: 'd0', webUrl: 'https://live' }] })
+
+        const plan = await planManifest(v0, validateManifest({ ...manifest, env: { API_URL: 'https://api.example.com' } }))
+        expect(countChanges(plan)).toBe(0)
+        expect(await applyPlan(v0, plan)).toEqual({})
+        expect(v0.deployments.create).not.toHaveBeenCalled()
+    })
+
+    it('plans updates for changed values and hooks', async () => {
+        v0.projects.findEnvVars.mockResolvedValue({ data: [{ id: 'e1', key: 'API_URL', value: 'https://old.example.com' }] })
+        v0.hooks.find.mockResolvedValue({ data: [{ id: 'h1', name: 'notify' }] })
+        v0.hooks.getById.mockResolvedValue({ id: 'h1', name: 'notify', url: 'https://old-hooks.example.com', events: ['chat.updated'], projectId: 'proj_1' })
+
+        const plan = await planManifest(v0, validateManifest({ ...manifest, env: { API_URL: 'https://api.example.com' } }))
+        expect(plan.steps.filter((s) => s.action === 'update').map((s) => `${s.name}: ${s.detail}`)).toEqual([
+            'API_URL: value changed',
+            'notify: url changed',
+        ])
+        await applyPlan(v0, plan)
+        expect(v0.projects.updateEnvVars).toHaveBeenCalledWith({ projectId: 'proj_1', environmentVariables: [{ id: 'e1', value: 'https://api.example.com' }] })
+        expect(v0.hooks.update).toHaveBeenCalledWith({ hookId: 'h1', name: 'notify', url: 'https://hooks.example.com', events: ['chat.updated'] })
+    })
+
+    it('resolves tags mapped in the manifest before the local ones', async () => {
+        tagVersion('chat_1', 'release', 'v1')
+        const shared = validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' }, version: 'tag:release', tags: { release: 'v2' } })
+        expect(shared.tags).toEqual({ release: 'v2' })
+        expect((await planManifest(v0, shared)).versionId).toBe('v2')
+
+        // Not tagged on this machine, but mapped in the manifest
+        const portable = validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' }, version: 'tag:prod', tags: { prod: 'v2' } })
+        expect((await planManifest(v0, portable)).versionId).toBe('v2')
+
+        expect(() => validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' }, tags: { 'bad tag': 'v1', ok: 3 } }))
+            .toThrow(/tags\.bad tag: invalid tag name[\s\S]*tags\.ok: expected a version ID/)
+    })
+
+    it('resolves version tags and rejects unlinked projects', async () => {
+        tagVersion('chat_1', 'stable', 'v1')
+        const plan = await planManifest(v0, validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' }, version: 'tag:stable' }))
+        expect(plan.versionId).toBe('v1')
+        await expect(planManifest(v0, validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' }, version: 'tag:missing' })))
+            .rejects.toThrow(/No version tagged "missing" for chat chat_1\. Tags set with "v0 chat versions tag" are stored on this machine only/)
+
+        v0.projects.getById.mockResolvedValue({ id: 'proj_1', name: 'shop' })
+        await expect(planManifest(v0, validateManifest({ project: { id: 'proj_1' }, chat: { id: 'chat_1' } })))
+            .rejects.toThrow(/not linked to Vercel/)
+    })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+import { deployCommand } from '../commands/deploy.js'
+import { projectCommand } from '../commands/project.js'
+import { resolveOutputFormat } from '../utils/output.js'
+
+const state = vi.hoisted(() => ({ configFormat: 'table' }))
+
+vi.mock('../utils/config.js', () => ({
+    ensureApiKey: vi.fn(async () => 'test-key'),
+    getConfig: vi.fn(() => ({ apiKey: 'test-key', defaultProject: 'proj_1', baseUrl: '', outputFormat: state.configFormat })),
+    getChecks: vi.fn(() => []),
+    resolveBaseUrl: vi.fn(() => ''),
+}))
+
+const project = { id: 'proj_1', object: 'project', name: 'P1', privacy: 'private', apiUrl: '', webUrl: '', createdAt: new Date().toISOString(), chats: [] }
+const envVar = { id: 'e1', object: 'environment_variable', key: 'K', value: 'V', decrypted: true }
+
+const deploymentsMock = {
+    getById: vi.fn(async () => ({ id: 'd1', object: 'deployment', inspectorUrl: '', chatId: 'chat_1', projectId: 'proj_1', versionId: 'v1', apiUrl: '', webUrl: '' })),
+    findLogs: vi.fn(async () => ({ logs: ['log1'], nextSince: 1 })),
+    findErrors: vi.fn(async () => ({ error: 'boom' })),
+}
+
+const projectsMock = {
+    create: vi.fn(async () => project),
+    find: vi.fn(async () => ({ object: 'list', data: [project] })),
+    getById: vi.fn(async () => project),
+    update: vi.fn(async () => project),
+    getByChatId: vi.fn(async () => project),
+    findEnvVars: vi.fn(async () => ({ object: 'list', data: [envVar] })),
+    getEnvVar: vi.fn(async () => ({ object: 'environment_variable', data: envVar })),
+    createEnvVars: vi.fn(async () => ({ object: 'list', data: [envVar] })),
+    updateEnvVars: vi.fn(async () => ({ object: 'list', data: [envVar] })),
+    deleteEnvVars: vi.fn(async () => ({ object: 'list', data: [{ id: 'e1', object: 'environment_variable', deleted: true }] })),
+}
+
+vi.mock('v0-sdk', () => ({
+    createClient: vi.fn(() => ({ deployments: deploymentsMock, projects: projectsMock })),
+}))
+
+const COMMANDS = [
+    ['deploy', 'get', 'd1'],
+    ['deploy', 'logs', 'd1'],
+    ['deploy', 'errors', 'd1'],
+    ['project', 'create', 'P1'],
+    ['project', 'list'],
+    ['project', 'get', 'proj_1'],
+    ['project', 'update', 'proj_1', '--name', 'P2'],
+    ['project', 'get-by-chat', 'chat_1'],
+    ['project', 'env', 'list', 'proj_1'],
+    ['project', 'env', 'get', 'proj_1', 'e1'],
+    ['project', 'env', 'create', 'proj_1', '--var', 'K=V'],
+    ['project', 'env', 'update', 'proj_1', '--var', 'e1=V'],
+    ['project', 'env', 'delete', 'proj_1', '--id', 'e1'],
+]
+
+// Mirrors src/index.ts; without withGlobal the command's own -o is the only one
+function makeProgram(withGlobal: boolean) {
+    const program = new Command()
+    if (withGlobal) program.option('-o, --output <format>', 'Output format (json|table|yaml)')
+    deployCommand(program)
+    projectCommand(program)
+    return program
+}
+
+// Run a command and report whether it printed a JSON document
+async function printsJson(args: string[], withGlobal = false): Promise<boolean> {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+    try {
+        await makeProgram(withGlobal).parseAsync(args, { from: 'user' })
+        return logSpy.mock.calls.some(([line]) => {
+            if (typeof line !== 'string' || !/^[[{]/.test(line)) return false
+            try {
+                return typeof JSON.parse(line) === 'object'
+            } catch {
+                return false
+            }
+        })
+    } finally {
+        logSpy.mockRestore()
+    }
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    state.configFormat = 'table'
+    delete process.env.V0_OUTPUT
+})
+
+afterEach(() => {
+    delete process.env.V0_OUTPUT
+})
+
+describe('resolveOutputFormat', () => {
+    it('prefers the command flag, then the global flag, then V0_OUTPUT, then config', () => {
+        process.env.V0_OUTPUT = 'yaml'
+        expect(resolveOutputFormat('json', 'table', 'table')).toBe('json')
+        expect(resolveOutputFormat(undefined, 'json', 'table')).toBe('json')
+        expect(resolveOutputFormat(undefined, undefined, 'table')).toBe('yaml')
+        delete process.env.V0_OUTPUT
+        expect(resolveOutputFormat(undefined, undefined, 'json')).toBe('json')
+    })
+
+    it('rejects formats the command does not support', () => {
+        expect(() => resolveOutputFormat('xml', undefined, 'table')).toThrow('Invalid output format "xml". Use one of: json, table, yaml')
+        expect(resolveOutputFormat('ndjson', undefined, 'table', ['json', 'table', 'yaml', 'ndjson'])).toBe('ndjson')
+    })
+})
+
+describe.each(COMMANDS.map((args) => [args.join(' '), args]))('%s', (_name, args) => {
+    it('honors its own -o flag over the config', async () => {
+        expect(await printsJson([...args, '-o', 'json'])).toBe(true)
+    })
+
+    it('honors the global -o flag', async () => {
+        expect(await printsJson(['-o', 'json', ...args], true)).toBe(true)
+    })
+
+    it('honors V0_OUTPUT', async () => {
+        process.env.V0_OUTPUT = 'json'
+        expect(await printsJson(args)).toBe(true)
+    })
+
+    it('falls back to the configured format', async () => {
+        expect(await printsJson(args)).toBe(false)
+        state.configFormat = 'json'
+        expect(await printsJson(args)).toBe(true)
+    })
+
+    it('lets the command flag override V0_OUTPUT and config', async () => {
+        process.env.V0_OUTPUT = 'json'
+        state.configFormat = 'json'
+        expect(await printsJson([...args, '-o', 'table'])).toBe(false)
+    })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { formatOutput, success, error, info, warning } from '../utils/output.js'
+import { formatOutput, success, error, info, warning, maskValue, redactSecrets, redactText, printSdkError } from '../utils/output.js'
 
 // Mock console.log and console.error
 const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
@@ -70,4 +70,56 @@ describe('Output Utils', () => {
             expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('⚠'), 'Warning message')
         })
     })
-}) 
\ No newline at end of file
+
+    describe('maskValue', () => {
+        it('keeps only the last four characters of long values', () => {
+            expect(maskValue('sk_live_123456789')).toBe('***6789')
+            expect(maskValue('short')).toBe('***')
+        })
+    })
+
+    describe('redactSecrets', () => {
+        it('masks values and secret-looking fields at any depth', () => {
+            const data = { id: 'e1', key: 'DB_URL', value: 'postgres://u:p@host/db', nested: [{ apiKey: 'v1_abcdefgh', name: 'x' }] }
+            expect(redactSecrets(data)).toEqual({ id: 'e1', key: 'DB_URL', value: '***t/db', nested: [{ apiKey: '***efgh', name: 'x' }] })
+        })
+    })
+
+    describe('printSdkError', () => {
+        it('redacts secrets from the verbose body', () => {
+            const err = Object.assign(new Error('Bad request'), {
+                status: 400,
+                body: '{"environmentVariables":[{"key":"TOKEN","value":"super-secret-value"}]}',
+            })
+            printSdkError(err, true)
+            const printed = mockConsoleError.mock.calls.flat().join('\n')
+            expect(printed).toContain('***alue')
+            expect(printed).not.toContain('super-secret-value')
+        })
+
+        it('redacts bodies that are not JSON', () => {
+            printSdkError({ status: 401, body: 'Authorization: Bearer v1_abc.def "token": "tok_12345678"' }, true)
+            const printed = mockConsoleError.mock.calls.flat().join('\n')
+            expect(printed).toContain('Bearer ***')
+            expect(printed).toContain('"token": "***5678"')
+            expect(printed).not.toContain('v1_abc.def')
+        })
+
+        it('redacts the message, stack and caller text of a real SDK error', () => {
+            // v0-sdk puts the response body in the message
+            const err = new Error('HTTP 400: {"error":{"message":"invalid"},"value":"postgres://u:hunter2secret@h"}')
+            printSdkError(err, true)
+            error(`Failed to create environment variables: ${err.message}`)
+            const printed = mockConsoleError.mock.calls.flat().join('\n')
+            expect(printed).toContain('message=HTTP 400:')
+            expect(printed).toContain('"value":"***et@h"')
+            expect(printed).not.toContain('hunter2secret')
+        })
+    })
+
+    describe('redactText', () => {
+        it('masks passwords in URLs', () => {
+            expect(redactText('connect to postgres://admin:hunter2@db:5432/app failed')).toBe('connect to postgres://admin:***@db:5432/app failed')
+        })
+    })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { collectPages, cursorPage, mapWithConcurrency, offsetPage, parseMax, printPages, withRateLimitRetry } from '../utils/paginate.js'
+
+const pages: Record<string, { data: number[]; pagination: { hasMore: boolean; nextCursor?: string } }> = {
+    start: { data: [1, 2], pagination: { hasMore: true, nextCursor: 'p2' } },
+    p2: { data: [3, 4], pagination: { hasMore: true, nextCursor: 'p3' } },
+    p3: { data: [5], pagination: { hasMore: false } },
+}
+const fetchPage = vi.fn(async (cursor?: string) => cursorPage(pages[cursor ?? 'start']))
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('paginator', () => {
+    it('collects every page', async () => {
+        expect(await collectPages(fetchPage)).toEqual([1, 2, 3, 4, 5])
+        expect(fetchPage).toHaveBeenCalledTimes(3)
+    })
+
+    it('stops fetching once --max items are collected', async () => {
+        expect(await collectPages(fetchPage, { max: 3 })).toEqual([1, 2, 3])
+        expect(fetchPage).toHaveBeenCalledTimes(2)
+    })
+
+    it('counts only items that pass the filter towards --max', async () => {
+        expect(await collectPages(fetchPage, { max: 2, filter: (n) => n % 2 === 1 })).toEqual([1, 3])
+    })
+
+    it('derives the next offset from full pages', () => {
+        expect(offsetPage([1, 2], 4, 2).nextCursor).toBe('6')
+        expect(offsetPage([1], 4, 2).nextCursor).toBeUndefined()
+    })
+
+    it('retries rate limited requests with backoff', async () => {
+        const request = vi.fn()
+            .mockRejectedValueOnce(new Error('HTTP 429: Too Many Requests'))
+            .mockResolvedValueOnce('ok')
+        expect(await withRateLimitRetry(request, 3, 1)).toBe('ok')
+        expect(request).toHaveBeenCalledTimes(2)
+
+        const failing = vi.fn().mockRejectedValue(new Error('HTTP 500: boom'))
+        await expect(withRateLimitRetry(failing, 3, 1)).rejects.toThrow('HTTP 500')
+        expect(failing).toHaveBeenCalledTimes(1)
+    })
+
+    it('merges pages into one output for json', async () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await printPages(fetchPage, { label: 'numbers', format: 'json', toRow: (n) => ({ n }) })
+        expect(logSpy).toHaveBeenCalledTimes(1)
+        expect(JSON.parse(logSpy.mock.calls[0][0])).toHaveLength(5)
+        logSpy.mockRestore()
+    })
+})
+
+describe('mapWithConcurrency', () => {
+    it('keeps order and limits requests in flight', async () => {
+        let active = 0
+        let peak = 0
+        const results = await mapWithConcurrency([30, 10, 20, 5, 1], 2, async (ms, i) => {
+            active++
+            peak = Math.max(peak, active)
+            await new Promise((resolve) => setTimeout(resolve, ms))
+            active--
+            return i
+        })
+        expect(results).toEqual([0, 1, 2, 3, 4])
+        expect(peak).toBe(2)
+    })
+})
+
+describe('parseMax', () => {
+    it('accepts only whole positive numbers', () => {
+        expect(parseMax(undefined)).toBeUndefined()
+        expect(parseMax(' 25 ')).toBe(25)
+        expect(() => parseMax('0')).toThrow('Invalid --max value: 0')
+        expect(() => parseMax('1MB', '--max-file-size')).toThrow('Invalid --max-file-size value: 1MB')
+        expect(() => parseMax('1.5')).toThrow('Invalid --max value: 1.5')
+    })
+})
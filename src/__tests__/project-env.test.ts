@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { Command } from 'commander'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import inquirer from 'inquirer'
+import { createClient } from 'v0-sdk'
 import { projectCommand } from '../commands/project.js'
 
 // Mock config helpers
@@ -18,6 +23,10 @@ const projectsMock = {
     updateEnvVars: vi.fn(async (body) => ({ object: 'list', data: body.environmentVariables.map((v: any) => ({ id: v.id, key: 'K', value: v.value, decrypted: true })) })),
     deleteEnvVars: vi.fn(async (body) => ({ object: 'list', data: body.environmentVariableIds.map((id: string) => ({ id, object: 'environment_variable', deleted: true })) })),
     assign: vi.fn(async () => ({})),
+    find: vi.fn(async () => ({
+        object: 'list',
+        data: ['a', 'b', 'c'].map((id) => ({ id, name: `Project ${id}`, createdAt: new Date().toISOString(), webUrl: '' })),
+    })),
 }
 
 vi.mock('v0-sdk', () => {
@@ -36,6 +45,17 @@ beforeEach(() => {
 })
 
 describe('project create/update flags and env vars subcommands', () => {
+    it('project list honors --limit unless --all is given', async () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await makeProgram().parseAsync(['project', 'list', '--limit', '2'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0]).map((p: any) => p.id)).toEqual(['a', 'b'])
+
+        logSpy.mockClear()
+        await makeProgram().parseAsync(['project', 'list', '--limit', '2', '--all'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0])).toHaveLength(3)
+        logSpy.mockRestore()
+    })
+
     it('project create forwards extended fields', async () => {
         const program = makeProgram()
         await program.parseAsync(['project', 'create', 'MyProj', '--description', 'D', '--icon', 'I', '--instructions', 'INS', '--privacy', 'private', '--vercel-project-id', 'vprj_1', '--env', 'A=1', 'B=2'], { from: 'user' })
@@ -70,6 +90,214 @@ describe('project create/update flags and env vars subcommands', () => {
         await program.parseAsync(['project', 'env', 'delete', 'p1', '--id', 'e1', 'e2'], { from: 'user' })
         expect(projectsMock.deleteEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariableIds: ['e1', 'e2'] })
     })
-})
 
+    it('env subcommands use the configured base URL', async () => {
+        process.env.V0_BASE_URL = 'https://api.example.test'
+        const dir = mkdtempSync(join(tmpdir(), 'v0-env-'))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            const program = makeProgram()
+            await program.parseAsync(['project', 'env', 'list', 'p1'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'get', 'p1', 'e1'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'create', 'p1', '--var', 'A=1'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'update', 'p1', '--var', 'e1=V1'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'delete', 'p1', '--id', 'e1'], { from: 'user' })
+            writeFileSync(join(dir, '.env'), 'NEW=1\n')
+            await program.parseAsync(['project', 'env', 'import', 'p1', '--file', join(dir, '.env')], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'export', 'p1', '--out', join(dir, 'out.env')], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'diff', 'p1', join(dir, '.env')], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'sync', join(dir, '.env'), 'p1', '--dry-run'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'set', 'p1', 'K=V2'], { from: 'user' })
+            await program.parseAsync(['project', 'env', 'unset', 'p1', 'K'], { from: 'user' })
+            expect((createClient as any).mock.calls.map(([options]: any) => options.baseUrl)).toEqual(Array(11).fill('https://api.example.test'))
+        } finally {
+            delete process.env.V0_BASE_URL
+            logSpy.mockRestore()
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('env list and get mask values unless --reveal is given', async () => {
+        projectsMock.findEnvVars.mockResolvedValueOnce({ object: 'list', data: [{ id: 'e1', key: 'K', value: 'sk_live_123456789', decrypted: true }] })
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        await makeProgram().parseAsync(['project', 'env', 'list', 'p1', '--decrypted'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0])[0].value).toBe('***6789')
+
+        logSpy.mockClear()
+        projectsMock.findEnvVars.mockResolvedValueOnce({ object: 'list', data: [{ id: 'e1', key: 'K', value: 'sk_live_123456789', decrypted: true }] })
+        // stdout is not a TTY under test, so --reveal does not prompt
+        await makeProgram().parseAsync(['project', 'env', 'list', 'p1', '--decrypted', '--reveal'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0])[0].value).toBe('sk_live_123456789')
+
+        logSpy.mockClear()
+        await makeProgram().parseAsync(['project', 'env', 'get', 'p1', 'e1', '--decrypted'], { from: 'user' })
+        expect(JSON.parse(logSpy.mock.calls[0][0]).data.value).toBe('***')
+        logSpy.mockRestore()
+    })
+
+    it('env create rejects malformed pairs instead of dropping them', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        await expect(makeProgram().parseAsync(['project', 'env', 'create', 'p1', '--var', 'A=1', 'oops'], { from: 'user' })).rejects.toThrow('exit')
+        expect(projectsMock.createEnvVars).not.toHaveBeenCalled()
+        expect(errorSpy.mock.calls.flat().join(' ')).toContain('Invalid --var "oops". Use KEY=VALUE')
+        errorSpy.mockRestore()
+        exitSpy.mockRestore()
+    })
+
+    it('env import creates new keys, updates changed ones with --upsert and reports the rest', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'v0-env-'))
+        const file = join(dir, '.env')
+        writeFileSync(file, '# app\nexport K=V2\nNEW="a b"\n')
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['project', 'env', 'import', 'p1', '--file', file], { from: 'user' })
+            expect(projectsMock.createEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ key: 'NEW', value: 'a b' }] })
+            expect(projectsMock.updateEnvVars).not.toHaveBeenCalled()
+            expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({
+                added: ['NEW'], updated: [], skipped: [{ key: 'K', reason: 'already set (use --upsert to overwrite)' }],
+            })
+
+            await makeProgram().parseAsync(['project', 'env', 'import', 'p1', '--file', file, '--upsert'], { from: 'user' })
+            expect(projectsMock.updateEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ id: 'e1', value: 'V2' }] })
+        } finally {
+            logSpy.mockRestore()
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('env export writes decrypted values as dotenv and lists encrypted keys as comments', async () => {
+        ; (projectsMock.findEnvVars as any).mockResolvedValueOnce({
+            object: 'list',
+            data: [{ id: 'e1', key: 'A', value: 'x y', decrypted: true }, { id: 'e2', key: 'B', value: 'enc', decrypted: false }],
+        })
+        const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['project', 'env', 'export', 'p1', '--decrypted'], { from: 'user' })
+            expect(writeSpy).toHaveBeenCalledWith('A="x y"\n# B= (encrypted; export with --decrypted)\n')
+            expect(errorSpy.mock.calls.flat().join('\n')).toContain('Skipped 1 encrypted key(s): B')
+        } finally {
+            writeSpy.mockRestore()
+            errorSpy.mockRestore()
+        }
+    })
+
+    it('env export asks before printing decrypted values to a terminal', async () => {
+        const isTTY = process.stdout.isTTY
+        process.stdout.isTTY = true
+        ; (inquirer.prompt as any).mockResolvedValueOnce({ confirm: false })
+        const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        const dir = mkdtempSync(join(tmpdir(), 'v0-env-'))
+        try {
+            await makeProgram().parseAsync(['project', 'env', 'export', 'p1', '--decrypted'], { from: 'user' })
+            expect(inquirer.prompt).toHaveBeenCalledTimes(1)
+            expect(projectsMock.findEnvVars).not.toHaveBeenCalled()
+            expect(writeSpy).not.toHaveBeenCalled()
 
+            // Writing to a file does not prompt
+            await makeProgram().parseAsync(['project', 'env', 'export', 'p1', '--decrypted', '--out', join(dir, '.env')], { from: 'user' })
+            expect(inquirer.prompt).toHaveBeenCalledTimes(1)
+            expect(projectsMock.findEnvVars).toHaveBeenCalledTimes(1)
+        } finally {
+            process.stdout.isTTY = isTTY
+            writeSpy.mockRestore()
+            logSpy.mockRestore()
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('env diff masks values unless --show-values is given', async () => {
+        const findEnvVars = projectsMock.findEnvVars.getMockImplementation()!
+        ; (projectsMock.findEnvVars as any).mockImplementation(async ({ projectId }: any) => ({
+            object: 'list',
+            data: [{ id: `${projectId}-1`, key: 'TOKEN', value: projectId === 'p1' ? 'token-aaaa1111' : 'token-bbbb2222', decrypted: true }],
+        }))
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['project', 'env', 'diff', 'p1', 'p2'], { from: 'user' })
+            expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual([{ key: 'TOKEN', status: 'changed', left: '***1111', right: '***2222' }])
+
+            logSpy.mockClear()
+            await makeProgram().parseAsync(['project', 'env', 'diff', 'p1', 'p2', '--show-values'], { from: 'user' })
+            expect(JSON.parse(logSpy.mock.calls[0][0])[0]).toMatchObject({ left: 'token-aaaa1111', right: 'token-bbbb2222' })
+        } finally {
+            logSpy.mockRestore()
+            projectsMock.findEnvVars.mockImplementation(findEnvVars)
+        }
+    })
+
+    it('env diff reports a missing .env file and keeps left/right columns for equal labels', async () => {
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await expect(makeProgram().parseAsync(['project', 'env', 'diff', 'p1', './prod.env'], { from: 'user' })).rejects.toThrow('exit')
+            expect(errorSpy.mock.calls.flat().join(' ')).toContain('File not found: ./prod.env')
+            expect(projectsMock.findEnvVars).not.toHaveBeenCalledWith(expect.objectContaining({ projectId: './prod.env' }))
+
+            await makeProgram().parseAsync(['project', 'env', 'diff', 'p1', 'p1', '--all', '-o', 'table'], { from: 'user' })
+            const printed = logSpy.mock.calls.flat().join('\n')
+            expect(printed).toContain('left: p1, right: p1')
+            expect(printed).toMatch(/key\s+\| status\s+\| left\s+\| right/)
+        } finally {
+            exitSpy.mockRestore()
+            errorSpy.mockRestore()
+            logSpy.mockRestore()
+        }
+    })
+
+    it('env sync issues one call per kind of change and nothing on --dry-run', async () => {
+        const findEnvVars = projectsMock.findEnvVars.getMockImplementation()!
+        const dir = mkdtempSync(join(tmpdir(), 'v0-env-'))
+        const file = join(dir, 'prod.env')
+        writeFileSync(file, 'K=V\nNEW=1\nCHANGED=2\n')
+        ; (projectsMock.findEnvVars as any).mockResolvedValue({
+            object: 'list',
+            data: [
+                { id: 'e1', key: 'K', value: 'V', decrypted: true },
+                { id: 'e2', key: 'CHANGED', value: 'old', decrypted: true },
+                { id: 'e3', key: 'STALE', value: 'x', decrypted: true },
+            ],
+        })
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+        try {
+            await makeProgram().parseAsync(['project', 'env', 'sync', file, 'p1', '--prune', '--dry-run'], { from: 'user' })
+            expect(projectsMock.createEnvVars).not.toHaveBeenCalled()
+            expect(projectsMock.updateEnvVars).not.toHaveBeenCalled()
+            expect(projectsMock.deleteEnvVars).not.toHaveBeenCalled()
+
+            await makeProgram().parseAsync(['project', 'env', 'sync', file, 'p1', '--prune', '--yes'], { from: 'user' })
+            expect(projectsMock.createEnvVars).toHaveBeenCalledTimes(1)
+            expect(projectsMock.createEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ key: 'NEW', value: '1' }] })
+            expect(projectsMock.updateEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ id: 'e2', value: '2' }] })
+            expect(projectsMock.deleteEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariableIds: ['e3'] })
+        } finally {
+            logSpy.mockRestore()
+            projectsMock.findEnvVars.mockImplementation(findEnvVars)
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('env set updates existing keys by ID and creates new ones with upsert', async () => {
+        await makeProgram().parseAsync(['project', 'env', 'set', 'p1', 'K=V2', 'NEW=1'], { from: 'user' })
+        expect(projectsMock.findEnvVars).toHaveBeenCalledWith({ projectId: 'p1', decrypted: 'true' })
+        expect(projectsMock.updateEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ id: 'e1', value: 'V2' }] })
+        expect(projectsMock.createEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariables: [{ key: 'NEW', value: '1' }], upsert: true })
+    })
+
+    it('env unset deletes keys by ID and refuses unknown keys', async () => {
+        await makeProgram().parseAsync(['project', 'env', 'unset', 'p1', 'K'], { from: 'user' })
+        expect(projectsMock.deleteEnvVars).toHaveBeenCalledWith({ projectId: 'p1', environmentVariableIds: ['e1'] })
+
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit') }) as any)
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        projectsMock.deleteEnvVars.mockClear()
+        await expect(makeProgram().parseAsync(['project', 'env', 'unset', 'p1', 'K', 'MISSING'], { from: 'user' })).rejects.toThrow('exit')
+        expect(errorSpy.mock.calls.flat().join(' ')).toContain('Not set in p1: MISSING')
+        expect(projectsMock.deleteEnvVars).not.toHaveBeenCalled()
+        errorSpy.mockRestore()
+        exitSpy.mockRestore()
+    })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { Readable } from 'stream'
+import { parseVars, readStdin, renderTemplate, resolvePrompts } from '../utils/prompt.js'
+
+describe('prompt inputs', () => {
+    it('parses --var pairs, keeping "=" inside values', () => {
+        expect(parseVars(['name=Acme', 'query=a=b'])).toEqual({ name: 'Acme', query: 'a=b' })
+        expect(() => parseVars(['broken'])).toThrow('Invalid --var "broken"')
+    })
+
+    it('fills placeholders and reports missing ones', () => {
+        expect(renderTemplate('Build {{ page }} for {{brand}}', { page: 'pricing', brand: 'Acme' })).toBe('Build pricing for Acme')
+        expect(() => renderTemplate('{{a}} {{b}}', { a: '1' })).toThrow('Missing template variable(s): b')
+    })
+
+    it('reads stdin to the end', async () => {
+        expect(await readStdin(Readable.from(['line 1\n', 'line 2\n']))).toBe('line 1\nline 2\n')
+    })
+
+    it('only templates when --var is given and allows a single stdin source', async () => {
+        expect(await resolvePrompts([{ inline: 'style={{x}}', flag: 'message', fileFlag: '--message-file' }])).toEqual(['style={{x}}'])
+        await expect(resolvePrompts([
+            { inline: '-', flag: 'message', fileFlag: '--message-file' },
+            { file: '-', flag: '--system', fileFlag: '--system-file' },
+        ])).rejects.toThrow('Only one of message, --system can read from stdin')
+        await expect(resolvePrompts([
+            { inline: 'hi', file: 'spec.md', flag: 'message', fileFlag: '--message-file' },
+        ])).rejects.toThrow('Use either message or --message-file, not both')
+    })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PassThrough } from 'stream'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { replHistoryPath, runChatRepl } from '../commands/repl.js'
+
+vi.mock('../utils/config.js', () => ({
+    getConfig: vi.fn(() => ({ apiKey: 'test-key', defaultProject: 'proj_1', baseUrl: '', outputFormat: 'json' })),
+    getConfigDir: vi.fn(() => dir),
+}))
+
+const chatsMock = {
+    sendMessage: vi.fn(async (body: any) => ({
+        id: body.chatId,
+        messages: [{ role: 'user', content: body.message }, { role: 'assistant', content: 'Done!' }],
+        latestVersion: { id: 'v2', status: 'completed', demoUrl: 'https://demo' },
+    })),
+    fork: vi.fn(async () => ({ id: 'chat_2', webUrl: 'https://v0.dev/c/chat_2' })),
+    getById: vi.fn(async () => ({ id: 'chat_1', projectId: 'proj_9', latestVersion: { id: 'v2', files: [] } })),
+    findMessages: vi.fn(async () => ({ data: [], pagination: { hasMore: false } })),
+}
+const deploymentsMock = {
+    create: vi.fn(async (body: any) => ({ id: 'd1', ...body, webUrl: 'https://web' })),
+}
+const v0 = { chats: chatsMock, deployments: deploymentsMock } as any
+
+let dir: string
+
+function run(lines: string[], options: { historyFile?: string } = { historyFile: join(dir, 'history.txt') }) {
+    const input = new PassThrough()
+    const output = new PassThrough()
+    output.resume()
+    const done = runChatRepl(v0, 'chat_1', { input, output, ...options })
+    input.end(lines.join('\n') + '\n')
+    return done
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => { })
+    vi.spyOn(console, 'error').mockImplementation(() => { })
+    dir = mkdtempSync(join(tmpdir(), 'v0-cli-repl-'))
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+})
+
+describe('chat repl', () => {
+    it('sends messages with the selected model and queued attachments', async () => {
+        await run(['/model v0-1.5-lg', '/attach https://a.png', 'Make it blue', 'And bigger'])
+        expect(chatsMock.sendMessage).toHaveBeenCalledTimes(2)
+        expect((chatsMock.sendMessage as any).mock.calls[0][0]).toEqual({
+            chatId: 'chat_1',
+            message: 'Make it blue',
+            attachments: [{ url: 'https://a.png' }],
+            modelConfiguration: { modelId: 'v0-1.5-lg' },
+        })
+        // Attachments only apply to the next message
+        expect((chatsMock.sendMessage as any).mock.calls[1][0].attachments).toBeUndefined()
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Done!'))
+    })
+
+    it('continues in the forked chat after /fork', async () => {
+        await run(['/fork v1', 'hello'])
+        expect(chatsMock.fork).toHaveBeenCalledWith({ chatId: 'chat_1', versionId: 'v1' })
+        expect((chatsMock.sendMessage as any).mock.calls[0][0].chatId).toBe('chat_2')
+    })
+
+    it('writes history to the forked chat\'s file after /fork', async () => {
+        mkdirSync(join(dir, 'history'))
+        writeFileSync(replHistoryPath('chat_1'), 'earlier\n')
+        await run(['/fork v1', 'hello'], {})
+        expect(readFileSync(replHistoryPath('chat_1'), 'utf8')).toBe('earlier\n')
+        expect(readFileSync(replHistoryPath('chat_2'), 'utf8')).toBe('earlier\n')
+    })
+
+    it('deploys the latest version to the chat project', async () => {
+        await run(['/deploy'])
+        expect(deploymentsMock.create).toHaveBeenCalledWith({ projectId: 'proj_9', chatId: 'chat_1', versionId: 'v2' })
+        const entry = JSON.parse(readFileSync(join(dir, 'deployments.jsonl'), 'utf8'))
+        expect(entry).toMatchObject({ source: 'repl', projectId: 'proj_9', versionId: 'v2' })
+    })
+
+    it('stops at /exit and keeps history across sessions', async () => {
+        writeFileSync(join(dir, 'history.txt'), 'earlier\n')
+        await run(['first', '/exit', 'ignored'])
+        expect(chatsMock.sendMessage).toHaveBeenCalledTimes(1)
+        expect(readFileSync(join(dir, 'history.txt'), 'utf8')).toContain('earlier')
+    })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { formatCheck, parseCheck, runSmokeChecks } from '../utils/smoke.js'
+
+let server: Server
+let baseUrl: string
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        if (req.url === '/') {
+            res.end('<h1>Welcome home</h1>')
+        } else if (req.url === '/old') {
+            res.writeHead(301, { location: '/' }).end()
+        } else if (req.url === '/slow') {
+            setTimeout(() => res.end('late'), 500)
+        } else {
+            res.writeHead(404).end('not found')
+        }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+    server.closeAllConnections()
+    server.close()
+})
+
+describe('parseCheck', () => {
+    it('parses path, status and body text', () => {
+        expect(parseCheck('/')).toEqual({ path: '/' })
+        expect(parseCheck('/api/health=204')).toEqual({ path: '/api/health', status: 204 })
+        expect(parseCheck('/about~About us')).toEqual({ path: '/about', contains: 'About us' })
+        expect(parseCheck('/search?q=1=200~a=b')).toEqual({ path: '/search?q=1', status: 200, contains: 'a=b' })
+    })
+
+    it('round-trips through formatCheck', () => {
+        expect(formatCheck(parseCheck('/api=200~ok'))).toBe('/api=200~ok')
+    })
+
+    it('rejects specs without a leading slash', () => {
+        expect(() => parseCheck('health')).toThrow('Invalid check "health"')
+    })
+})
+
+describe('runSmokeChecks', () => {
+    it('checks status codes and body text', async () => {
+        const results = await runSmokeChecks(baseUrl, [
+            parseCheck('/~Welcome'),
+            parseCheck('/~Goodbye'),
+            parseCheck('/missing'),
+            parseCheck('/missing=404'),
+            parseCheck('/old=301'),
+        ])
+        expect(results.map((r) => [r.check, r.status, r.ok])).toEqual([
+            ['/~Welcome', 200, true],
+            ['/~Goodbye', 200, false],
+            ['/missing', 404, false],
+            ['/missing=404', 404, true],
+            ['/old=301', 301, true],
+        ])
+        expect(results[1].error).toBe('body does not contain "Goodbye"')
+        expect(results[2].error).toBe('expected 2xx, got 404')
+    })
+
+    it('fails a check that exceeds the timeout', async () => {
+        const [result] = await runSmokeChecks(baseUrl, [parseCheck('/slow')], { timeoutMs: 50 })
+        expect(result.ok).toBe(false)
+        expect(result.error).toBeTruthy()
+    })
+})
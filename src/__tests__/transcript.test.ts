@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { linkVersions, renderHtml, renderMarkdown, Transcript } from '../utils/transcript.js'
+
+const transcript: Transcript = {
+    chat: { id: 'chat_1', name: 'Navbar', webUrl: 'https://v0.dev/c/chat_1', createdAt: '2024-01-01T10:00:00Z' },
+    messages: [
+        { id: 'm1', role: 'user', type: 'message', createdAt: '2024-01-01T10:00:00Z', content: 'Make a <nav>' },
+        { id: 'm2', role: 'assistant', type: 'message', createdAt: '2024-01-01T10:01:00Z', content: 'Here:\n\n```tsx\nconst a = 1 < 2\n```\nDone', versionId: 'v1' },
+    ],
+    versions: { v1: { id: 'v1', files: [{ name: 'nav.tsx', content: 'const s = ```\n' }] } },
+}
+
+describe('transcript rendering', () => {
+    it('renders markdown with role headings and files under the producing message', () => {
+        const md = renderMarkdown(transcript)
+        expect(md).toMatch(/^# Navbar/)
+        expect(md).toContain('## Assistant')
+        expect(md.indexOf('### Files (version v1)')).toBeGreaterThan(md.indexOf('## Assistant'))
+        // The fence is longer than backtick runs in the file
+        expect(md).toContain('````tsx\nconst s = ```\n````')
+    })
+
+    it('renders escaped html with code blocks', () => {
+        const html = renderHtml(transcript)
+        expect(html).toContain('<p>Make a &lt;nav&gt;</p>')
+        expect(html).toContain('<pre><code class="language-tsx">const a = 1 &lt; 2</code></pre>')
+        expect(html).toContain('<p>Done</p>')
+        expect(html).toContain('<h4>nav.tsx</h4>')
+    })
+})
+
+describe('linkVersions', () => {
+    it('puts each version under the last assistant message before it', () => {
+        const messages = transcript.messages.map(({ versionId, ...m }) => m)
+        const linked = linkVersions(messages, [
+            { id: 'v2', createdAt: '2024-01-01T10:05:00Z' },
+            { id: 'v1', createdAt: '2024-01-01T10:01:10Z' },
+            { id: 'v0', createdAt: '2024-01-01T09:00:00Z' },
+        ])
+        // v1 and v2 both follow m2, so the newer one stays there and v1 is appended
+        expect(linked.map((m) => m.versionId)).toEqual([undefined, 'v2'])
+        expect(messages[1]).not.toHaveProperty('versionId')
+    })
+})
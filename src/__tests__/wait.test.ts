@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { READY_QUIET_POLLS, waitForDeployment, waitForVersion, waitOptionsFrom } from '../utils/wait.js'
+
+const version = (id: string, status: string) => ({ id, object: 'version', status, createdAt: '', files: [] })
+
+const getById = vi.fn()
+const deployments = { getById: vi.fn(), findErrors: vi.fn(), findLogs: vi.fn() }
+const v0 = { chats: { getById }, deployments } as any
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('waitForVersion', () => {
+    it('polls until the latest version completes', async () => {
+        getById
+            .mockResolvedValueOnce({ id: 'c1' })
+            .mockResolvedValueOnce({ id: 'c1', latestVersion: version('v1', 'pending') })
+            .mockResolvedValueOnce({ id: 'c1', latestVersion: version('v1', 'completed') })
+        const result = await waitForVersion(v0, 'c1', { pollIntervalMs: 1, timeoutMs: 5000 })
+        expect(result.status).toBe('completed')
+        expect(result.version?.id).toBe('v1')
+        expect(getById).toHaveBeenCalledTimes(3)
+    })
+
+    it('ignores the version that existed before the request', async () => {
+        getById
+            .mockResolvedValueOnce({ id: 'c1', latestVersion: version('v1', 'completed') })
+            .mockResolvedValueOnce({ id: 'c1', latestVersion: version('v2', 'failed') })
+        const result = await waitForVersion(v0, 'c1', { pollIntervalMs: 1, timeoutMs: 5000, ignoreVersionId: 'v1' })
+        expect(result.status).toBe('failed')
+        expect(result.version?.id).toBe('v2')
+    })
+
+    it('reports a timeout', async () => {
+        getById.mockResolvedValue({ id: 'c1', latestVersion: version('v1', 'pending') })
+        const result = await waitForVersion(v0, 'c1', { pollIntervalMs: 1, timeoutMs: 0 })
+        expect(result.status).toBe('timeout')
+    })
+})
+
+describe('waitForDeployment', () => {
+    beforeEach(() => {
+        deployments.getById.mockResolvedValue({ id: 'd1', webUrl: 'https://web' })
+        deployments.findErrors.mockResolvedValue({})
+    })
+
+    it('is ready once the logs stay ended for a few polls without errors', async () => {
+        deployments.findLogs
+            .mockResolvedValueOnce({ logs: ['Building'], nextSince: 5 })
+            .mockResolvedValueOnce({ logs: ['Still building'] })
+            .mockResolvedValueOnce({ logs: ['Done'], nextSince: 9 })
+            .mockResolvedValue({ logs: [] })
+        const result = await waitForDeployment(v0, 'd1', { pollIntervalMs: 1, timeoutMs: 5000 })
+        expect(result.status).toBe('ready')
+        // The quiet poll between two batches does not count; three in a row after the last one do
+        expect(deployments.findLogs).toHaveBeenCalledTimes(3 + READY_QUIET_POLLS)
+        expect(deployments.findLogs).toHaveBeenLastCalledWith({ deploymentId: 'd1', since: '9' })
+    })
+
+    it('fails with the errors reported by findErrors', async () => {
+        deployments.findErrors.mockResolvedValueOnce({ error: 'boom', formattedError: 'Build failed: boom' })
+        const result = await waitForDeployment(v0, 'd1', { pollIntervalMs: 1, timeoutMs: 5000 })
+        expect(result.status).toBe('failed')
+        expect(result.errors?.formattedError).toBe('Build failed: boom')
+        expect(deployments.findLogs).not.toHaveBeenCalled()
+    })
+
+    it('trusts a state reported on the deployment and times out otherwise', async () => {
+        deployments.getById.mockResolvedValueOnce({ id: 'd1', status: 'READY' })
+        expect((await waitForDeployment(v0, 'd1', { pollIntervalMs: 1 })).status).toBe('ready')
+
+        deployments.findLogs.mockResolvedValue({ logs: [], nextSince: 1 })
+        expect((await waitForDeployment(v0, 'd1', { pollIntervalMs: 1, timeoutMs: 0 })).status).toBe('timeout')
+    })
+})
+
+describe('waitOptionsFrom', () => {
+    it('converts seconds to milliseconds', () => {
+        expect(waitOptionsFrom({ timeout: '10', pollInterval: '0.5' })).toEqual({ timeoutMs: 10000, pollIntervalMs: 500 })
+    })
+
+    it('rejects values that are not a non-negative number of seconds', () => {
+        expect(() => waitOptionsFrom({ timeout: 'abc' })).toThrow('Invalid --timeout value: abc')
+        expect(() => waitOptionsFrom({ timeout: '-5' })).toThrow('Invalid --timeout value: -5')
+        expect(() => waitOptionsFrom({ timeout: '5m' })).toThrow('Invalid --timeout value: 5m')
+        expect(() => waitOptionsFrom({ pollInterval: '0' })).toThrow('Invalid --poll-interval value: 0')
+        expect(() => waitOptionsFrom({ timeout: 'x' }, '--version-timeout')).toThrow('Invalid --version-timeout value: x')
+        expect(waitOptionsFrom({ timeout: '0' }).timeoutMs).toBe(0)
+    })
+})
@@ -2,11 +2,21 @@ import { Command } from 'commander'
 import chalk from 'chalk'
 import ora from 'ora'
 import inquirer from 'inquirer'
-import { readFileSync } from 'fs'
+import { readFileSync, writeFileSync } from 'fs'
 import { basename } from 'path'
 import { createClient } from 'v0-sdk'
 import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, success, error, info, formatChat, printSdkError } from '../utils/output.js'
+import { formatOutput, success, error, info, warning, formatChat, printSdkError, resolveOutputFormat } from '../utils/output.js'
+import { CollectResult, DEFAULT_MAX_FILE_SIZE, VersionFile, collectLocalFiles, hashContent, writePullManifest, writeVersionFiles } from '../utils/files.js'
+import { DEFAULT_POLL_INTERVAL, DEFAULT_WAIT_TIMEOUT, WaitResult, waitFailureMessage, waitForVersion, waitOptionsFrom } from '../utils/wait.js'
+import { DEFAULT_MAX_ATTACHMENT_SIZE, resolveAttachments } from '../utils/attachments.js'
+import { collectGitFiles } from '../utils/git.js'
+import { collectVars, resolvePrompts } from '../utils/prompt.js'
+import { diffVersions, printDiffStat, printUnifiedDiff } from '../utils/diff.js'
+import { LIST_OUTPUT_FORMATS, ListOutputFormat, cursorPage, offsetPage, parseMax, printPages, wantsAllPages } from '../utils/paginate.js'
+import { TRANSCRIPT_FORMATS, TranscriptFormat, TranscriptVersion, fetchAllMessages, fetchAllVersions, linkVersions, renderTranscript, toTranscriptMessages } from '../utils/transcript.js'
+import { readVersionTags, tagVersion, untagVersion } from '../utils/version-tags.js'
+import { runChatRepl } from './repl.js'
 
 export function chatCommand(program: Command): void {
     const chat = program
@@ -21,9 +31,16 @@ export function chatCommand(program: Command): void {
         .option('-s, --system <system>', 'System message')
         .option('-p, --privacy <privacy>', 'Privacy setting (public|private)', 'private')
         .option('-m, --model <model>', 'Model to use', 'v0-1.5-md')
+        .option('--message-file <path>', 'Read the message from a file (- for stdin)')
+        .option('--system-file <path>', 'Read the system message from a file (- for stdin)')
+        .option('--var <key=value>', 'Fill {{key}} placeholders in the message and system message (repeatable)', collectVars)
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .option('-P, --project-id <projectId>', 'Project ID to associate')
-        .option('-a, --attachment <url...>', 'Attachment URL(s)')
+        .option('-a, --attachment <url-or-path...>', 'Attachment URL(s) or local file(s) to inline as data URLs')
+        .option('--max-attachment-size <bytes>', 'Size limit for local attachments', String(DEFAULT_MAX_ATTACHMENT_SIZE))
+        .option('--wait', 'Wait until the generated version is completed or failed')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_WAIT_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
         .action(async (message, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -31,9 +48,14 @@ export function chatCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
-
-                let chatMessage = message
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const waitOptions = waitOptionsFrom(options)
+
+                const [messageText, systemText] = await resolvePrompts([
+                    { inline: message, file: options.messageFile, flag: 'message', fileFlag: '--message-file' },
+                    { inline: options.system, file: options.systemFile, flag: '--system', fileFlag: '--system-file' },
+                ], options.var)
+                let chatMessage = messageText || ''
                 if (!chatMessage) {
                     const answers = await inquirer.prompt([
                         {
@@ -51,30 +73,42 @@ export function chatCommand(program: Command): void {
                     chatMessage = answers.message
                 }
 
+                const { attachments, inlined } = resolveAttachments(options.attachment, parseMax(options.maxAttachmentSize, '--max-attachment-size'))
+                inlined.forEach((a) => info(`Inlined ${a.path} (${a.mimeType}, ${a.bytes} bytes)`))
+
                 const spinner = ora('Creating chat...').start()
 
                 const chat = await v0.chats.create({
                     message: chatMessage,
-                    system: options.system,
+                    system: systemText,
                     chatPrivacy: options.privacy as any,
                     projectId: options.projectId || config.defaultProject || undefined,
                     modelConfiguration: {
                         modelId: options.model as any
                     },
-                    attachments: Array.isArray(options.attachment)
-                        ? options.attachment.map((url: string) => ({ url }))
-                        : undefined,
+                    attachments,
                 })
 
                 spinner.succeed('Chat created successfully!')
 
+                let waited: WaitResult | undefined
+                if (options.wait) {
+                    waited = await waitForVersion(v0, chat.id, waitOptions)
+                }
+                const finalChat = waited?.chat ?? chat
+
                 if (outputFormat === 'table') {
-                    formatChat(chat)
+                    formatChat(finalChat)
                 } else {
-                    formatOutput(chat, outputFormat)
+                    formatOutput(finalChat, outputFormat)
                 }
 
-                success(`Chat URL: ${chat.webUrl}`)
+                success(`Chat URL: ${finalChat.webUrl}`)
+
+                if (waited && waited.status !== 'completed') {
+                    error(waitFailureMessage(waited))
+                    process.exit(1)
+                }
 
             } catch (err) {
                 error(`Failed to create chat: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -89,11 +123,13 @@ export function chatCommand(program: Command): void {
         .command('list')
         .description('List all chats')
         .option('-f, --favorite', 'Show only favorite chats')
-        .option('-l, --limit <number>', 'Number of chats to show', '10')
+        .option('-l, --limit <number>', 'Number of chats to show (page size with --all/--max)', '10')
         .option('-P, --project-id <id>', 'Filter by project ID')
         .option('-n, --name <text>', 'Filter by name containing text')
         .option('-p, --privacy <privacy>', 'Filter by privacy (public|private)')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('-a, --all', 'Fetch every page')
+        .option('--max <n>', 'Fetch pages until n chats are listed')
+        .option('-o, --output <format>', 'Output format (json|table|yaml|ndjson)')
         .action(async (options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -101,7 +137,43 @@ export function chatCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat<ListOutputFormat>(options.output, globalOpts.output, config.outputFormat, LIST_OUTPUT_FORMATS)
+
+                type ChatSummary = Awaited<ReturnType<typeof v0.chats.find>>['data'][number]
+                // Client-side filters for convenience
+                const matches = (chat: ChatSummary) => {
+                    if (options.projectId && chat.projectId !== options.projectId) return false
+                    if (options.privacy && chat.privacy !== options.privacy) return false
+                    if (options.name && !(chat.name || '').toLowerCase().includes(options.name.toLowerCase())) return false
+                    return true
+                }
+                const toRow = (chat: ChatSummary) => ({
+                    id: chat.id,
+                    name: chat.name || 'Untitled',
+                    privacy: chat.privacy,
+                    created: new Date(chat.createdAt).toLocaleDateString(),
+                    url: chat.webUrl
+                })
+
+                if (wantsAllPages(options)) {
+                    const pageSize = parseInt(options.limit, 10) || 10
+                    await printPages(async (cursor) => {
+                        const offset = cursor ? parseInt(cursor, 10) : 0
+                        const page = await v0.chats.find({
+                            limit: String(pageSize),
+                            offset: String(offset),
+                            isFavorite: options.favorite ? 'true' : undefined
+                        })
+                        return offsetPage(page.data, offset, pageSize)
+                    }, {
+                        label: 'chats',
+                        format: outputFormat,
+                        max: parseMax(options.max),
+                        filter: matches,
+                        toRow,
+                    })
+                    return
+                }
 
                 const spinner = ora('Fetching chats...').start()
 
@@ -117,23 +189,8 @@ export function chatCommand(program: Command): void {
                     return
                 }
 
-                // Client-side filters for convenience
-                const filtered = response.data.filter(chat => {
-                    if (options.projectId && chat.projectId !== options.projectId) return false
-                    if (options.privacy && chat.privacy !== options.privacy) return false
-                    if (options.name && !(chat.name || '').toLowerCase().includes(options.name.toLowerCase())) return false
-                    return true
-                })
-
-                const chats = filtered.map(chat => ({
-                    id: chat.id,
-                    name: chat.name || 'Untitled',
-                    privacy: chat.privacy,
-                    created: new Date(chat.createdAt).toLocaleDateString(),
-                    url: chat.webUrl
-                }))
-
-                formatOutput(chats, outputFormat)
+                const filtered = response.data.filter(matches)
+                formatOutput(filtered.map(toRow), outputFormat)
 
                 // If API returns pagination info, surface it
                 // @ts-expect-error runtime check only
@@ -163,7 +220,7 @@ export function chatCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching chat details...').start()
 
@@ -200,7 +257,7 @@ export function chatCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const updateData: any = {}
                 if (options.name) updateData.name = options.name
@@ -239,18 +296,26 @@ export function chatCommand(program: Command): void {
         .option('-P, --project-id <projectId>', 'Project ID to associate')
         .option('--lock-all-files', 'Lock all files when applicable')
         .option('--file <path...>', 'Add local file(s) to initialize the chat (reads content)')
+        .option('--dir <path>', 'Initialize from a local directory (keeps paths, respects .gitignore/.v0ignore)')
+        .option('--git <path>', 'Initialize from a local git repository snapshot')
+        .option('--ref <ref>', 'Commit, branch or tag to snapshot with --git', 'HEAD')
+        .option('--max-file-size <bytes>', 'Skip files larger than this with --dir/--git', String(DEFAULT_MAX_FILE_SIZE))
         .option('--repo-url <url>', 'Initialize from a Git repo URL')
         .option('--repo-branch <branch>', 'Git repo branch')
         .option('--registry-url <url>', 'Initialize from a registry URL')
         .option('--zip-url <url>', 'Initialize from a zip URL')
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the generated version is completed or failed')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_WAIT_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
         .action(async (options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const waitOptions = waitOptionsFrom(options)
 
                 // Determine init type based on provided options
                 let initPayload: any | null = null
@@ -264,6 +329,29 @@ export function chatCommand(program: Command): void {
                         files,
                         lockAllFiles: !!options.lockAllFiles,
                     }
+                } else if (options.dir || options.git) {
+                    const maxFileSize = parseMax(options.maxFileSize, '--max-file-size')
+                    let collected: CollectResult
+                    let source: string
+                    if (options.dir) {
+                        collected = collectLocalFiles(options.dir, { maxFileSize })
+                        source = options.dir
+                    } else {
+                        const snapshot = collectGitFiles(options.git, options.ref, { maxFileSize })
+                        collected = snapshot
+                        source = `${options.git} at ${snapshot.commit.slice(0, 7)}`
+                    }
+                    collected.skipped.forEach((s) => warning(`Skipping ${s.name}: ${s.reason}`))
+                    if (collected.files.length === 0) {
+                        error(`No files to upload from ${source}`)
+                        process.exit(1)
+                    }
+                    info(`Uploading ${collected.files.length} files (${collected.totalBytes} bytes) from ${source}`)
+                    initPayload = {
+                        type: 'files',
+                        files: collected.files.map((f) => ({ name: f.name, content: f.content })),
+                        lockAllFiles: !!options.lockAllFiles,
+                    }
                 } else if (options.repoUrl) {
                     initPayload = {
                         type: 'repo',
@@ -288,7 +376,7 @@ export function chatCommand(program: Command): void {
                 }
 
                 if (!initPayload) {
-                    error('Provide at least one source: --file, --repo-url, --registry-url, or --zip-url')
+                    error('Provide at least one source: --file, --dir, --git, --repo-url, --registry-url, or --zip-url')
                     process.exit(1)
                 }
 
@@ -301,10 +389,21 @@ export function chatCommand(program: Command): void {
                 })
                 spinner.succeed('Chat initialized successfully!')
 
+                let waited: WaitResult | undefined
+                if (options.wait) {
+                    waited = await waitForVersion(v0, chat.id, waitOptions)
+                }
+                const finalChat = waited?.chat ?? chat
+
                 if (outputFormat === 'table') {
-                    formatChat(chat)
+                    formatChat(finalChat)
                 } else {
-                    formatOutput(chat, outputFormat)
+                    formatOutput(finalChat, outputFormat)
+                }
+
+                if (waited && waited.status !== 'completed') {
+                    error(waitFailureMessage(waited))
+                    process.exit(1)
                 }
             } catch (err) {
                 error(`Failed to initialize chat: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -327,7 +426,7 @@ export function chatCommand(program: Command): void {
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Forking chat...').start()
                 const chat = await v0.chats.fork({ chatId, versionId: options.versionId })
@@ -355,35 +454,49 @@ export function chatCommand(program: Command): void {
         .command('list')
         .description('List messages in a chat')
         .argument('<chatId>', 'Chat ID')
-        .option('-l, --limit <number>', 'Number of messages to show', '20')
+        .option('-l, --limit <number>', 'Number of messages to show (page size with --all/--max)', '20')
         .option('-c, --cursor <cursor>', 'Pagination cursor')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('-a, --all', 'Fetch every page')
+        .option('--max <n>', 'Fetch pages until n messages are listed')
+        .option('-o, --output <format>', 'Output format (json|table|yaml|ndjson)')
         .action(async (chatId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat<ListOutputFormat>(options.output, globalOpts.output, config.outputFormat, LIST_OUTPUT_FORMATS)
+
+                type MessageSummary = Awaited<ReturnType<typeof v0.chats.findMessages>>['data'][number]
+                const toRow = (m: MessageSummary) => ({
+                    id: m.id,
+                    role: m.role,
+                    type: m.type,
+                    createdAt: new Date(m.createdAt).toLocaleString(),
+                    content: m.content?.slice(0, 80) || '',
+                })
+
+                if (wantsAllPages(options)) {
+                    await printPages((cursor) => v0.chats.findMessages({ chatId, limit: options.limit, cursor: cursor ?? options.cursor }).then(cursorPage), {
+                        label: 'messages',
+                        format: outputFormat,
+                        max: parseMax(options.max),
+                        toRow: outputFormat === 'table' ? toRow : undefined,
+                    })
+                    return
+                }
 
                 const spinner = ora('Fetching messages...').start()
                 const resp = await v0.chats.findMessages({ chatId, limit: options.limit, cursor: options.cursor })
                 spinner.succeed(`Found ${resp.data.length} messages`)
 
                 if (outputFormat === 'table') {
-                    const rows = resp.data.map((m) => ({
-                        id: m.id,
-                        role: m.role,
-                        type: m.type,
-                        createdAt: new Date(m.createdAt).toLocaleString(),
-                        content: m.content?.slice(0, 80) || '',
-                    }))
-                    formatOutput(rows, 'table')
+                    formatOutput(resp.data.map(toRow), 'table')
                     if (resp.pagination?.nextCursor) {
                         console.log(chalk.gray(`\nNext page cursor: ${resp.pagination.nextCursor}`))
                     }
                 } else {
-                    formatOutput(resp, outputFormat)
+                    formatOutput(outputFormat === 'ndjson' ? resp.data : resp, outputFormat)
                 }
             } catch (err) {
                 error(`Failed to list messages: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -405,7 +518,7 @@ export function chatCommand(program: Command): void {
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching message...').start()
                 const msg = await v0.chats.getMessage({ chatId, messageId })
@@ -429,34 +542,48 @@ export function chatCommand(program: Command): void {
         .command('list')
         .description('List versions of a chat')
         .argument('<chatId>', 'Chat ID')
-        .option('-l, --limit <number>', 'Number of versions to show', '20')
+        .option('-l, --limit <number>', 'Number of versions to show (page size with --all/--max)', '20')
         .option('-c, --cursor <cursor>', 'Pagination cursor')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('-a, --all', 'Fetch every page')
+        .option('--max <n>', 'Fetch pages until n versions are listed')
+        .option('-o, --output <format>', 'Output format (json|table|yaml|ndjson)')
         .action(async (chatId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat<ListOutputFormat>(options.output, globalOpts.output, config.outputFormat, LIST_OUTPUT_FORMATS)
+
+                type VersionSummary = Awaited<ReturnType<typeof v0.chats.findVersions>>['data'][number]
+                const toRow = (v: VersionSummary) => ({
+                    id: v.id,
+                    status: v.status,
+                    createdAt: new Date(v.createdAt).toLocaleString(),
+                    demoUrl: v.demoUrl || '',
+                })
+
+                if (wantsAllPages(options)) {
+                    await printPages((cursor) => v0.chats.findVersions({ chatId, limit: options.limit, cursor: cursor ?? options.cursor }).then(cursorPage), {
+                        label: 'versions',
+                        format: outputFormat,
+                        max: parseMax(options.max),
+                        toRow: outputFormat === 'table' ? toRow : undefined,
+                    })
+                    return
+                }
 
                 const spinner = ora('Fetching versions...').start()
                 const resp = await v0.chats.findVersions({ chatId, limit: options.limit, cursor: options.cursor })
                 spinner.succeed(`Found ${resp.data.length} versions`)
 
                 if (outputFormat === 'table') {
-                    const rows = resp.data.map((v) => ({
-                        id: v.id,
-                        status: v.status,
-                        createdAt: new Date(v.createdAt).toLocaleString(),
-                        demoUrl: (v as any).demoUrl || '',
-                    }))
-                    formatOutput(rows, 'table')
+                    formatOutput(resp.data.map(toRow), 'table')
                     if (resp.pagination?.nextCursor) {
                         console.log(chalk.gray(`\nNext page cursor: ${resp.pagination.nextCursor}`))
                     }
                 } else {
-                    formatOutput(resp, outputFormat)
+                    formatOutput(outputFormat === 'ndjson' ? resp.data : resp, outputFormat)
                 }
             } catch (err) {
                 error(`Failed to list versions: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -478,7 +605,7 @@ export function chatCommand(program: Command): void {
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching version...').start()
                 const version = await v0.chats.getVersion({ chatId, versionId })
@@ -493,6 +620,134 @@ export function chatCommand(program: Command): void {
             }
         })
 
+    versions
+        .command('tag')
+        .description('Tag a version locally (e.g. stable) so manifests can select it; lists tags when no tag is given')
+        .argument('<chatId>', 'Chat ID')
+        .argument('[tag]', 'Tag name')
+        .argument('[versionId]', 'Version ID (defaults to the latest version)')
+        .option('-d, --delete', 'Remove the tag')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (chatId, tag, versionId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                if (!tag) {
+                    const tags = readVersionTags()[chatId] || {}
+                    formatOutput(outputFormat === 'table'
+                        ? Object.entries(tags).map(([name, id]) => ({ tag: name, versionId: id }))
+                        : tags, outputFormat)
+                    return
+                }
+                if (!/^[\w.-]+$/.test(tag)) {
+                    error(`Invalid tag "${tag}". Use letters, digits, ".", "_" or "-"`)
+                    process.exit(1)
+                }
+
+                if (options.delete) {
+                    if (untagVersion(chatId, tag)) {
+                        success(`Removed tag ${tag}`)
+                    } else {
+                        warning(`Tag ${tag} does not exist for chat ${chatId}`)
+                    }
+                    return
+                }
+
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                // Make sure the version exists before pointing a tag at it
+                const spinner = ora('Resolving version...').start()
+                let targetVersionId: string | undefined = versionId
+                if (targetVersionId) {
+                    await v0.chats.getVersion({ chatId, versionId: targetVersionId })
+                } else {
+                    const chatDetails = await v0.chats.getById({ chatId })
+                    targetVersionId = chatDetails.latestVersion?.id
+                }
+                if (!targetVersionId) {
+                    spinner.fail('No versions found for this chat')
+                    process.exit(1)
+                }
+                spinner.succeed(`Resolved version ${targetVersionId}`)
+
+                tagVersion(chatId, tag, targetVersionId)
+                success(`Tagged ${targetVersionId} as ${tag}`)
+            } catch (err) {
+                error(`Failed to tag version: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    versions
+        .command('diff')
+        .description('Show what changed between two versions of a chat')
+        .argument('<chatId>', 'Chat ID')
+        .argument('<fromVersion>', 'Base version ID')
+        .argument('[toVersion]', 'Target version ID (defaults to the latest version)')
+        .option('--stat', 'Show a per-file summary of changed lines')
+        .option('--name-only', 'Show only the names of changed files')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (chatId, fromVersion, toVersion, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const spinner = ora('Fetching versions...').start()
+                let targetVersionId: string | undefined = toVersion
+                if (!targetVersionId) {
+                    const chatDetails = await v0.chats.getById({ chatId })
+                    targetVersionId = chatDetails.latestVersion?.id
+                }
+                if (!targetVersionId) {
+                    spinner.fail('No versions found for this chat')
+                    process.exit(1)
+                }
+                const [from, to] = await Promise.all([
+                    v0.chats.getVersion({ chatId, versionId: fromVersion }),
+                    v0.chats.getVersion({ chatId, versionId: targetVersionId }),
+                ])
+                spinner.succeed(`Comparing ${from.id} → ${to.id}`)
+
+                const patch = diffVersions(from, to)
+
+                if (outputFormat !== 'table') {
+                    // --stat/--name-only drop the hunks from the structured patch
+                    const summaryOnly = options.stat || options.nameOnly
+                    formatOutput(summaryOnly
+                        ? { ...patch, files: patch.files.map(({ hunks, ...file }) => file) }
+                        : patch, outputFormat)
+                    return
+                }
+
+                if (patch.files.length === 0) {
+                    info('No differences')
+                    return
+                }
+                if (options.nameOnly) {
+                    patch.files.forEach((file) => console.log(file.name))
+                } else if (options.stat) {
+                    printDiffStat(patch)
+                } else {
+                    printUnifiedDiff(patch)
+                }
+            } catch (err) {
+                error(`Failed to diff versions: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     versions
         .command('update')
         .description('Update files in a specific version')
@@ -506,7 +761,7 @@ export function chatCommand(program: Command): void {
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 if (!options.file || options.file.length === 0) {
                     error('Provide at least one --file path to update the version')
@@ -531,6 +786,202 @@ export function chatCommand(program: Command): void {
             }
         })
 
+    // Pull version files into a local directory
+    chat
+        .command('pull')
+        .description('Write the files of a chat version to a local directory')
+        .argument('<chatId>', 'Chat ID')
+        .option('-v, --version-id <versionId>', 'Version ID (defaults to the latest version)')
+        .option('-d, --dir <path>', 'Target directory', '.')
+        .option('-f, --force', 'Overwrite locally modified files')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (chatId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const spinner = ora('Fetching version...').start()
+                let version: { id: string; files: VersionFile[] } | undefined
+                if (options.versionId) {
+                    version = await v0.chats.getVersion({ chatId, versionId: options.versionId })
+                } else {
+                    const chatDetails = await v0.chats.getById({ chatId })
+                    version = chatDetails.latestVersion
+                }
+                if (!version) {
+                    spinner.fail('No versions found for this chat')
+                    process.exit(1)
+                }
+                spinner.succeed(`Version ${version.id} retrieved (${version.files.length} files)`)
+
+                const dir = options.dir as string
+                const { plan, conflicts, written } = writeVersionFiles(dir, chatId, version, !!options.force)
+                if (!written) {
+                    error(`${conflicts.length} local file(s) were modified and would be overwritten:`)
+                    conflicts.forEach((entry) => console.error(`  ${entry.name}`))
+                    info('Re-run with --force to overwrite them')
+                    process.exit(1)
+                }
+
+                const rows = plan.map((entry) => ({
+                    file: entry.name,
+                    status: entry.status === 'conflict' ? 'changed' : entry.status,
+                }))
+                const count = (status: string) => rows.filter((r) => r.status === status).length
+
+                if (outputFormat === 'table') {
+                    formatOutput(rows, 'table')
+                    success(`Pulled ${version.id} into ${dir}: ${count('created')} created, ${count('changed')} changed, ${count('unchanged')} unchanged`)
+                } else {
+                    formatOutput({ chatId, versionId: version.id, dir, files: rows }, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to pull version: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Push a local directory as the files of a chat version
+    chat
+        .command('push')
+        .description('Upload a local directory as the files of a chat version')
+        .argument('<chatId>', 'Chat ID')
+        .option('-v, --version-id <versionId>', 'Version ID (defaults to the latest version)')
+        .option('-d, --dir <path>', 'Source directory', '.')
+        .option('--max-file-size <bytes>', 'Skip files larger than this many bytes', String(DEFAULT_MAX_FILE_SIZE))
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (chatId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const dir = options.dir as string
+                const { files, skipped, totalBytes } = collectLocalFiles(dir, { maxFileSize: parseMax(options.maxFileSize, '--max-file-size') })
+                skipped.forEach((s) => warning(`Skipping ${s.name}: ${s.reason}`))
+                if (files.length === 0) {
+                    error(`No files to push in ${dir}`)
+                    process.exit(1)
+                }
+
+                let versionId: string | undefined = options.versionId
+                if (!versionId) {
+                    const chatDetails = await v0.chats.getById({ chatId })
+                    versionId = chatDetails.latestVersion?.id
+                }
+                if (!versionId) {
+                    error('No versions found for this chat. Provide --version-id.')
+                    process.exit(1)
+                }
+
+                const spinner = ora(`Pushing ${files.length} files (${totalBytes} bytes)...`).start()
+                const updated = await v0.chats.updateVersion({
+                    chatId,
+                    versionId,
+                    files: files.map((f) => ({ name: f.name, content: f.content })),
+                })
+                spinner.succeed('Version updated successfully!')
+
+                // Keep the pull manifest in sync so a later pull does not flag these files as local edits
+                writePullManifest(dir, {
+                    chatId,
+                    versionId: updated.id,
+                    pulledAt: new Date().toISOString(),
+                    files: Object.fromEntries(files.map((f) => [f.name, hashContent(f.content)])),
+                })
+
+                if (outputFormat === 'table') {
+                    formatOutput(files.map((f) => ({ file: f.name, bytes: f.size })), 'table')
+                    success(`Pushed ${files.length} files to ${updated.id}${skipped.length > 0 ? ` (${skipped.length} skipped)` : ''}`)
+                } else {
+                    formatOutput({
+                        chatId,
+                        versionId: updated.id,
+                        files: files.map((f) => ({ name: f.name, bytes: f.size })),
+                        skipped,
+                    }, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to push version: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Export the full transcript of a chat
+    chat
+        .command('export')
+        .description('Export the full chat transcript (md|html|jsonl)')
+        .argument('<chatId>', 'Chat ID')
+        .option('-f, --format <format>', `Transcript format (${TRANSCRIPT_FORMATS.join('|')})`, 'md')
+        .option('--out <file>', 'Write the transcript to a file instead of stdout')
+        .option('--include-files', 'Embed the files of every version under the message that produced it')
+        .action(async (chatId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                const format = options.format as TranscriptFormat
+                if (!TRANSCRIPT_FORMATS.includes(format)) {
+                    error(`Invalid format: ${options.format}. Use one of ${TRANSCRIPT_FORMATS.join(', ')}`)
+                    process.exit(1)
+                }
+
+                const spinner = ora('Fetching messages...').start()
+                const chatDetails = await v0.chats.getById({ chatId })
+                const all = await fetchAllMessages(v0, chatId, (count) => {
+                    spinner.text = `Fetching messages... (${count})`
+                })
+                let messages = toTranscriptMessages(all)
+
+                const versions: Record<string, TranscriptVersion> = {}
+                if (options.includeFiles) {
+                    spinner.text = 'Fetching versions...'
+                    const summaries = await fetchAllVersions(v0, chatId)
+                    messages = linkVersions(messages, summaries)
+                    for (const { id: versionId } of summaries) {
+                        spinner.text = `Fetching files of version ${versionId}...`
+                        const version = await v0.chats.getVersion({ chatId, versionId })
+                        versions[versionId] = {
+                            id: versionId,
+                            files: (version.files || []).map((f) => ({ name: f.name, content: f.content })),
+                        }
+                    }
+                }
+                spinner.succeed(`Exported ${messages.length} messages`)
+
+                const transcript = renderTranscript({
+                    chat: { id: chatDetails.id, name: chatDetails.name, webUrl: chatDetails.webUrl, createdAt: chatDetails.createdAt },
+                    messages,
+                    versions,
+                }, format)
+
+                if (options.out) {
+                    writeFileSync(options.out, transcript)
+                    success(`Transcript written to ${options.out}`)
+                } else {
+                    process.stdout.write(transcript)
+                }
+            } catch (err) {
+                error(`Failed to export chat: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Resume a message (continue generation)
     chat
         .command('resume')
@@ -538,19 +989,43 @@ export function chatCommand(program: Command): void {
         .argument('<chatId>', 'Chat ID')
         .argument('<messageId>', 'Message ID')
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the generated version is completed or failed')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_WAIT_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
         .action(async (chatId, messageId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const waitOptions = waitOptionsFrom(options)
+
+                // Remember the current version so --wait does not return it as the result
+                const previousVersionId = options.wait
+                    ? (await v0.chats.getById({ chatId })).latestVersion?.id
+                    : undefined
 
                 const spinner = ora('Resuming generation...').start()
                 const resumed = await v0.chats.resume({ chatId, messageId })
                 spinner.succeed('Generation resumed')
 
-                formatOutput(resumed, outputFormat)
+                if (!options.wait) {
+                    formatOutput(resumed, outputFormat)
+                    return
+                }
+
+                const waited = await waitForVersion(v0, chatId, { ...waitOptions, ignoreVersionId: previousVersionId })
+                formatOutput({
+                    ...resumed,
+                    versionId: waited.version?.id,
+                    versionStatus: waited.status,
+                    demoUrl: waited.version?.demoUrl,
+                }, outputFormat)
+                if (waited.status !== 'completed') {
+                    error(waitFailureMessage(waited))
+                    process.exit(1)
+                }
             } catch (err) {
                 error(`Failed to resume: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -565,19 +1040,29 @@ export function chatCommand(program: Command): void {
         .description('Send a message to a chat')
         .argument('<chatId>', 'Chat ID')
         .argument('[message]', 'Message to send')
-        .option('-a, --attachment <url...>', 'Attachment URL(s)')
+        .option('-a, --attachment <url-or-path...>', 'Attachment URL(s) or local file(s) to inline as data URLs')
+        .option('--max-attachment-size <bytes>', 'Size limit for local attachments', String(DEFAULT_MAX_ATTACHMENT_SIZE))
         .option('-m, --model <model>', 'Model to use')
         .option('--response-mode <mode>', 'Response mode (sync|async)')
+        .option('--message-file <path>', 'Read the message from a file (- for stdin)')
+        .option('--var <key=value>', 'Fill {{key}} placeholders in the message (repeatable)', collectVars)
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the generated version is completed or failed')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_WAIT_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
         .action(async (chatId, message, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const waitOptions = waitOptionsFrom(options)
 
-                let chatMessage = message
+                const [messageText] = await resolvePrompts([
+                    { inline: message, file: options.messageFile, flag: 'message', fileFlag: '--message-file' },
+                ], options.var)
+                let chatMessage = messageText || ''
                 if (!chatMessage) {
                     const answers = await inquirer.prompt([
                         {
@@ -595,28 +1080,56 @@ export function chatCommand(program: Command): void {
                     chatMessage = answers.message
                 }
 
+                const { attachments, inlined } = resolveAttachments(options.attachment, parseMax(options.maxAttachmentSize, '--max-attachment-size'))
+                inlined.forEach((a) => info(`Inlined ${a.path} (${a.mimeType}, ${a.bytes} bytes)`))
+
+                // Remember the current version so --wait does not return it as the result
+                const previousVersionId = options.wait
+                    ? (await v0.chats.getById({ chatId })).latestVersion?.id
+                    : undefined
+
                 const spinner = ora('Sending message...').start()
 
                 const response = await v0.chats.sendMessage({
                     chatId,
                     message: chatMessage,
-                    attachments: Array.isArray(options.attachment)
-                        ? options.attachment.map((url: string) => ({ url }))
-                        : undefined,
+                    attachments,
                     modelConfiguration: options.model ? { modelId: options.model as any } : undefined,
                     responseMode: options.responseMode
                 })
 
                 spinner.succeed('Message sent successfully!')
 
+                let waited: WaitResult | undefined
+                if (options.wait) {
+                    waited = await waitForVersion(v0, chatId, { ...waitOptions, ignoreVersionId: previousVersionId })
+                }
+
                 if (outputFormat === 'table') {
                     console.log(chalk.blue('Message sent successfully!'))
                     console.log(`Chat ID: ${chatId}`)
                     console.log(`Message: ${chatMessage}`)
+                    if (waited?.version) {
+                        console.log(`Version: ${waited.version.id} (${waited.version.status})`)
+                        if (waited.version.demoUrl) console.log(`Demo: ${waited.version.demoUrl}`)
+                    }
+                } else if (waited) {
+                    formatOutput({
+                        chatId,
+                        message: chatMessage,
+                        versionId: waited.version?.id,
+                        versionStatus: waited.status,
+                        demoUrl: waited.version?.demoUrl,
+                    }, outputFormat)
                 } else {
                     formatOutput({ chatId, message: chatMessage }, outputFormat)
                 }
 
+                if (waited && waited.status !== 'completed') {
+                    error(waitFailureMessage(waited))
+                    process.exit(1)
+                }
+
             } catch (err) {
                 error(`Failed to send message: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -625,6 +1138,35 @@ export function chatCommand(program: Command): void {
             }
         })
 
+    // Interactive REPL on top of sendMessage
+    chat
+        .command('repl')
+        .description('Start an interactive session with a chat')
+        .argument('<chatId>', 'Chat ID')
+        .option('-m, --model <model>', 'Model to use')
+        .option('-d, --dir <path>', 'Default directory for /pull', '.')
+        .option('-P, --project-id <projectId>', 'Project ID used by /deploy')
+        .action(async (chatId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                await runChatRepl(v0, chatId, {
+                    model: options.model,
+                    dir: options.dir,
+                    projectId: options.projectId,
+                    verbose: !!globalOpts.verbose,
+                })
+            } catch (err) {
+                error(`Failed to run REPL: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Delete chat
     chat
         .command('delete')
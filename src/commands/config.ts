@@ -1,7 +1,8 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import inquirer from 'inquirer'
-import { getConfig, setConfig, clearConfig, showConfig } from '../utils/config.js'
+import { getConfig, setConfig, clearConfig, showConfig, setChecks } from '../utils/config.js'
+import { parseCheck } from '../utils/smoke.js'
 import { success, error, info } from '../utils/output.js'
 
 export function configCommand(program: Command): void {
@@ -151,6 +152,29 @@ export function configCommand(program: Command): void {
             }
         })
 
+    // Set smoke checks run after deployments go live
+    config
+        .command('set-checks')
+        .description('Set smoke checks run after a deployment goes live')
+        .argument('[checks...]', 'Checks as PATH[=STATUS][~TEXT], e.g. / /api/health=200~ok')
+        .option('--clear', 'Remove all smoke checks')
+        .action(async (checks: string[], options) => {
+            try {
+                if (options.clear || checks.length === 0) {
+                    setChecks([])
+                    success('Smoke checks cleared')
+                    return
+                }
+
+                checks.forEach(parseCheck)
+                setChecks(checks)
+                success(`Smoke checks set to: ${checks.join(', ')}`)
+            } catch (err) {
+                error(`Failed to set smoke checks: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                process.exit(1)
+            }
+        })
+
     // Clear config
     config
         .command('clear')
@@ -2,9 +2,211 @@ import { Command } from 'commander'
 import chalk from 'chalk'
 import ora from 'ora'
 import inquirer from 'inquirer'
+import { writeFileSync } from 'fs'
+import { basename, resolve } from 'path'
 import { createClient } from 'v0-sdk'
-import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, success, error, info, printSdkError } from '../utils/output.js'
+import { ensureApiKey, getChecks, getConfig, resolveBaseUrl } from '../utils/config.js'
+import { formatOutput, success, error, info, warning, printSdkError, resolveOutputFormat } from '../utils/output.js'
+import {
+    DEFAULT_DEPLOY_TIMEOUT,
+    DEFAULT_POLL_INTERVAL,
+    DEFAULT_WAIT_TIMEOUT,
+    DeploymentWaitResult,
+    EXIT_DEPLOY_FAILED,
+    EXIT_DEPLOY_TIMEOUT,
+    waitFailureMessage,
+    waitForDeployment,
+    waitForVersion,
+    waitOptionsFrom,
+} from '../utils/wait.js'
+import { collectVars, resolvePrompts } from '../utils/prompt.js'
+import { DEFAULT_MAX_FILE_SIZE, collectLocalFiles } from '../utils/files.js'
+import { FollowResult, followLogs, parseGrep, printLogEntry, toLogEntry } from '../utils/logs.js'
+import { DEFAULT_CONCURRENCY, LIST_OUTPUT_FORMATS, ListOutputFormat, parseMax } from '../utils/paginate.js'
+import { HISTORY_SORT_FIELDS, HistorySortField, collectDeploymentHistory, findRollbackTarget, parseSince, sortHistory } from '../utils/deployments.js'
+import { DEFAULT_FIX_ATTEMPTS, runFixLoop } from '../utils/fix.js'
+import { LEDGER_EXPORT_FORMATS, LedgerEntry, LedgerExportFormat, filterLedger, lastLedgerEntry, ledgerPath, readLedger, recordInLedger, renderLedger } from '../utils/ledger.js'
+import { EXIT_CHECKS_FAILED, SmokeCheck, parseCheck, printSmokeResults, runSmokeChecks } from '../utils/smoke.js'
+import { DEFAULT_MANIFEST_FILE, DeployPlan, applyPlan, countChanges, loadManifest, planManifest } from '../utils/manifest.js'
+
+type V0Client = ReturnType<typeof createClient>
+
+const VERSION_PICKER_LIMIT = 20
+
+// Offer the chat's recent versions instead of silently deploying the latest one
+async function pickVersion(v0: V0Client, chatId: string): Promise<string | undefined> {
+    const response = await v0.chats.findVersions({ chatId, limit: String(VERSION_PICKER_LIMIT) })
+    const versions = response.data
+    if (versions.length === 0) return undefined
+    if (versions.length === 1) {
+        info(`Using the only version: ${versions[0].id}`)
+        return versions[0].id
+    }
+    const answer = await inquirer.prompt([
+        {
+            type: 'list',
+            name: 'versionId',
+            message: 'Select a version:',
+            choices: versions.map((v, i) => ({
+                name: `${v.id} - ${v.status} - ${new Date(v.createdAt).toLocaleString()}${i === 0 ? ' (latest)' : ''}`,
+                value: v.id,
+            })),
+            default: (versions.find((v) => v.status === 'completed') || versions[0]).id,
+        },
+    ])
+    return answer.versionId
+}
+
+function ledgerEntries(options: { tag?: string; projectId?: string; since?: string }, query?: string): LedgerEntry[] {
+    return filterLedger(readLedger(), {
+        query,
+        tag: options.tag,
+        project: options.projectId,
+        since: options.since ? parseSince(options.since) : undefined,
+    })
+}
+
+// Newest first, like deploy history
+function printLedger(entries: LedgerEntry[], outputFormat: 'json' | 'table' | 'yaml', limit?: number): void {
+    const shown = [...entries].reverse().slice(0, limit)
+    if (outputFormat !== 'table') {
+        formatOutput(shown, outputFormat)
+        return
+    }
+    if (shown.length === 0) {
+        info(`No ledger entries found in ${ledgerPath()}`)
+        return
+    }
+    formatOutput(shown.map((entry) => ({
+        time: new Date(entry.recordedAt).toLocaleString(),
+        deployment: entry.deploymentId,
+        source: entry.source,
+        version: entry.versionId,
+        user: entry.user,
+        commit: entry.gitCommit ? entry.gitCommit.slice(0, 7) + (entry.gitDirty ? '*' : '') : '',
+        tags: entry.tags.join(','),
+        note: entry.note || '',
+        webUrl: entry.webUrl,
+    })), 'table')
+    if (entries.length > shown.length) {
+        console.log(chalk.gray(`\nShowing ${shown.length} of ${entries.length} (use --limit to see more)`))
+    }
+}
+
+type ProjectDetails = Awaited<ReturnType<V0Client['projects']['getById']>>
+
+// Deployments need a Vercel-linked project: fall back to the default project if it is
+// linked, otherwise ask for another one
+async function ensureVercelProject(v0: V0Client, projectId: string, defaultProject: string): Promise<ProjectDetails> {
+    const projectDetails = await v0.projects.getById({ projectId })
+    if (projectDetails.vercelProjectId) return projectDetails
+
+    // Try defaultProject as fallback if different and linked
+    if (defaultProject && defaultProject !== projectId) {
+        const defaultProjectDetails = await v0.projects.getById({ projectId: defaultProject })
+        if (defaultProjectDetails.vercelProjectId) {
+            info(`Selected project is not linked to Vercel. Falling back to default project: ${defaultProjectDetails.name} (${defaultProjectDetails.id})`)
+            return defaultProjectDetails
+        }
+    }
+
+    // Interactive selection of another project
+    const projectsResponse = await v0.projects.find()
+    if (!projectsResponse.data || projectsResponse.data.length === 0) {
+        error('No projects found in your account. Create one first.')
+        process.exit(1)
+    }
+    const answer = await inquirer.prompt([
+        {
+            type: 'list',
+            name: 'projectId',
+            message: 'Selected project is not linked to Vercel. Select a different project to deploy (must be Vercel-linked):',
+            choices: projectsResponse.data.map((p) => ({ name: `${p.name} (${p.id})`, value: p.id })),
+        },
+    ])
+    const altProject = await v0.projects.getById({ projectId: answer.projectId })
+    if (!altProject.vercelProjectId) {
+        error('The selected project is still not linked to Vercel. Please link a Vercel project from the project page and retry.')
+        process.exit(1)
+    }
+    return altProject
+}
+
+// Match a project by part of its name; exits when none matches
+async function findProjectByName(v0: V0Client, name: string): Promise<string> {
+    const projectsResponse = await v0.projects.find()
+    const match = projectsResponse.data.find(p => p.name?.toLowerCase().includes(name.toLowerCase()))
+    if (!match) {
+        error(`Project with name containing "${name}" not found`)
+        process.exit(1)
+    }
+    info(`Selected project by name: ${match.name} (${match.id})`)
+    return match.id
+}
+
+// --check replaces the checks from the config; --skip-checks drops both
+function smokeChecksFrom(options: { check?: string[]; skipChecks?: boolean }): SmokeCheck[] {
+    if (options.skipChecks) return []
+    return (options.check || getChecks()).map(parseCheck)
+}
+
+// Print the outcome of a deployment wait, run the smoke checks once it is live and
+// exit with the CI exit code on failure. Commands that created the deployment have
+// already printed its URL, so only `deploy wait` asks for it with showUrl.
+async function reportDeploymentWait(result: DeploymentWaitResult, outputFormat: 'json' | 'table' | 'yaml', checks: SmokeCheck[] = [], showUrl = false): Promise<void> {
+    const formattedError = result.errors?.formattedError || result.errors?.error
+    const smoke = result.status === 'ready' && checks.length > 0
+        ? await runSmokeChecks(result.deployment.webUrl, checks)
+        : undefined
+    if (outputFormat !== 'table') {
+        formatOutput({
+            ...result.deployment,
+            status: result.status,
+            elapsedMs: result.elapsedMs,
+            ...(formattedError ? { error: formattedError } : {}),
+            ...(smoke ? { checks: smoke } : {}),
+        }, outputFormat)
+    } else if (result.status === 'ready') {
+        if (showUrl) success(`Deployment URL: ${result.deployment.webUrl}`)
+        if (smoke) printSmokeResults(smoke)
+    } else if (formattedError) {
+        console.log(chalk.red('Deployment Error:'))
+        console.log(formattedError)
+    }
+
+    if (result.status === 'failed') {
+        error(`Deployment ${result.deployment.id} failed`)
+        process.exit(EXIT_DEPLOY_FAILED)
+    } else if (result.status === 'timeout') {
+        error(`Timed out after ${Math.round(result.elapsedMs / 1000)}s waiting for deployment ${result.deployment.id}`)
+        process.exit(EXIT_DEPLOY_TIMEOUT)
+    }
+
+    const failed = smoke?.filter((r) => !r.ok) || []
+    if (failed.length > 0) {
+        error(`${failed.length} of ${smoke!.length} smoke check(s) failed`)
+        process.exit(EXIT_CHECKS_FAILED)
+    }
+}
+
+const PLAN_SYMBOLS = {
+    create: '+ create',
+    update: '~ update',
+    unchanged: '= unchanged',
+}
+
+function printPlan(plan: DeployPlan): void {
+    console.log(chalk.blue('Deploy Plan:'))
+    console.log(`Project: ${plan.project.name} (${plan.project.id})`)
+    console.log(`Chat: ${plan.chat.name || 'Unnamed'} (${plan.chat.id})`)
+    console.log(`Version: ${plan.versionId}`)
+    formatOutput(plan.steps.map((step) => ({
+        action: PLAN_SYMBOLS[step.action],
+        resource: step.resource,
+        name: step.name,
+        detail: step.detail || '',
+    })), 'table')
+}
 
 export function deployCommand(program: Command): void {
     const deploy = program
@@ -26,7 +228,7 @@ export function deployCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 // Resolve required IDs. API expects projectId, chatId, versionId.
                 let finalProjectId: string | undefined = options.projectId || config.defaultProject || undefined
@@ -99,13 +301,11 @@ export function deployCommand(program: Command): void {
                     }
 
                     if (!finalVersionId && finalChatId) {
-                        const chatDetails = await v0.chats.getById({ chatId: finalChatId })
-                        if (!chatDetails.latestVersion) {
+                        finalVersionId = await pickVersion(v0, finalChatId)
+                        if (!finalVersionId) {
                             error('No versions found for this chat.')
                             process.exit(1)
                         }
-                        finalVersionId = chatDetails.latestVersion.id
-                        info(`Using latest version: ${finalVersionId}`)
                     }
                 }
 
@@ -141,6 +341,68 @@ export function deployCommand(program: Command): void {
             }
         })
 
+    // Deployment history across projects
+    deploy
+        .command('history')
+        .description('List deployments across all projects and chats')
+        .option('-p, --project <idOrName>', 'Only include projects with this ID or a name containing this text')
+        .option('--since <when>', 'Only include deployments of versions created since a duration (7d, 24h, 30m) or date; filters by version age, not deploy time')
+        .option('-l, --limit <number>', 'Maximum number of deployments to show', '50')
+        .option('-s, --sort <field>', `Sort by ${HISTORY_SORT_FIELDS.join('|')}`, 'time')
+        .option('--concurrency <n>', 'Maximum parallel API requests', String(DEFAULT_CONCURRENCY))
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                if (!HISTORY_SORT_FIELDS.includes(options.sort)) {
+                    error(`Invalid --sort "${options.sort}". Use one of: ${HISTORY_SORT_FIELDS.join(', ')}`)
+                    process.exit(1)
+                }
+                const limit = parseMax(options.limit, '--limit')
+                const concurrency = parseMax(options.concurrency, '--concurrency')
+                const since = options.since ? parseSince(options.since) : undefined
+
+                const spinner = ora('Scanning projects...').start()
+                const entries = await collectDeploymentHistory(v0, {
+                    project: options.project,
+                    since,
+                    concurrency,
+                    onProgress: (done, total) => {
+                        spinner.text = `Scanning chats... (${done}/${total})`
+                    },
+                })
+                const history = sortHistory(entries, options.sort as HistorySortField).slice(0, limit)
+                spinner.succeed(`Found ${entries.length} deployments`)
+
+                if (outputFormat === 'table') {
+                    formatOutput(history.map((entry) => ({
+                        time: new Date(entry.time).toLocaleString(),
+                        project: entry.projectName,
+                        chat: entry.chatName,
+                        version: entry.versionId,
+                        webUrl: entry.webUrl,
+                        inspectorUrl: entry.inspectorUrl,
+                    })), 'table')
+                    if (entries.length > history.length) {
+                        console.log(chalk.gray(`\nShowing ${history.length} of ${entries.length} (use --limit to see more)`))
+                    }
+                } else {
+                    formatOutput(history, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to load deployment history: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Create deployment - Improved version
     deploy
         .command('create')
@@ -152,6 +414,13 @@ export function deployCommand(program: Command): void {
         .option('-p, --project-name <name>', 'Select project by name')
         .option('-c, --chat-name <name>', 'Select chat by name')
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (implies --wait; exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
         .action(async (projectId, chatId, versionId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -159,7 +428,11 @@ export function deployCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+                // --check implies --wait
+                const wait = options.wait || !!options.check
 
                 let finalProjectId = projectId || config.defaultProject || undefined
                 let finalChatId = chatId
@@ -252,19 +525,14 @@ export function deployCommand(program: Command): void {
                         }
                     }
 
-                    // Get chat details to find versions
+                    // Interactive version selection
                     if (!finalVersionId) {
-                        const chatDetails = await v0.chats.getById({ chatId: finalChatId })
+                        finalVersionId = await pickVersion(v0, finalChatId)
 
-                        if (!chatDetails.latestVersion) {
+                        if (!finalVersionId) {
                             error('No versions found for this chat. Please generate some code first.')
                             process.exit(1)
                         }
-
-                        // For now, we'll use the latest version
-                        // In the future, we could show a list of versions if multiple exist
-                        finalVersionId = chatDetails.latestVersion.id
-                        info(`Using latest version: ${finalVersionId}`)
                     }
                 }
 
@@ -283,6 +551,7 @@ export function deployCommand(program: Command): void {
                 })
 
                 spinner.succeed('Deployment created successfully!')
+                recordInLedger(deployment, 'create', { note: options.note, tags: options.tag })
 
                 if (outputFormat === 'table') {
                     console.log(chalk.blue('Deployment Details:'))
@@ -292,13 +561,17 @@ export function deployCommand(program: Command): void {
                     console.log(`Version ID: ${deployment.versionId}`)
                     console.log(`Inspector URL: ${deployment.inspectorUrl}`)
                     console.log(`Web URL: ${deployment.webUrl}`)
-                } else {
+                } else if (!wait) {
                     formatOutput(deployment, outputFormat)
                 }
 
                 success(`Deployment URL: ${deployment.webUrl}`)
                 success(`Inspector URL: ${deployment.inspectorUrl}`)
 
+                if (wait) {
+                    await reportDeploymentWait(await waitForDeployment(v0, deployment.id, waitOptions), outputFormat, checks)
+                }
+
             } catch (err) {
                 error(`Failed to create deployment: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -316,6 +589,13 @@ export function deployCommand(program: Command): void {
         .option('-p, --project-name <name>', 'Select project by name (override chat/default)')
         .option('-P, --project-id <id>', 'Project ID to use (override chat/default)')
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (implies --wait; exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
         .action(async (chatId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -323,7 +603,11 @@ export function deployCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+                // --check implies --wait
+                const wait = options.wait || !!options.check
 
                 let finalChatId = chatId
 
@@ -381,14 +665,7 @@ export function deployCommand(program: Command): void {
                 // Resolve project to use: explicit overrides > chat's project > defaultProject
                 let resolvedProjectId: string | undefined = options.projectId
                 if (!resolvedProjectId && options.projectName) {
-                    const projectsResponse = await v0.projects.find()
-                    const match = projectsResponse.data.find(p => p.name?.toLowerCase().includes(options.projectName.toLowerCase()))
-                    if (!match) {
-                        error(`Project with name containing "${options.projectName}" not found`)
-                        process.exit(1)
-                    }
-                    info(`Selected project by name: ${match.name} (${match.id})`)
-                    resolvedProjectId = match.id
+                    resolvedProjectId = await findProjectByName(v0, options.projectName)
                 }
                 if (!resolvedProjectId) {
                     resolvedProjectId = chatDetails.projectId || config.defaultProject || undefined
@@ -399,40 +676,7 @@ export function deployCommand(program: Command): void {
                 }
 
                 // Validate that project is linked to Vercel
-                let projectDetails = await v0.projects.getById({ projectId: resolvedProjectId })
-                if (!projectDetails.vercelProjectId) {
-                    // Try defaultProject as fallback if different and linked
-                    if (config.defaultProject && config.defaultProject !== resolvedProjectId) {
-                        const defaultProjectDetails = await v0.projects.getById({ projectId: config.defaultProject })
-                        if (defaultProjectDetails.vercelProjectId) {
-                            info(`Selected project is not linked to Vercel. Falling back to default project: ${defaultProjectDetails.name} (${defaultProjectDetails.id})`)
-                            resolvedProjectId = defaultProjectDetails.id
-                            projectDetails = defaultProjectDetails
-                        }
-                    }
-                }
-                if (!projectDetails.vercelProjectId) {
-                    // Interactive selection of another project
-                    const projectsResponse = await v0.projects.find()
-                    if (!projectsResponse.data || projectsResponse.data.length === 0) {
-                        error('No projects found in your account. Create one first.')
-                        process.exit(1)
-                    }
-                    const answer = await inquirer.prompt([
-                        {
-                            type: 'list',
-                            name: 'projectId',
-                            message: 'Selected project is not linked to Vercel. Select a different project to deploy (must be Vercel-linked):',
-                            choices: projectsResponse.data.map((p) => ({ name: `${p.name} (${p.id})`, value: p.id })),
-                        },
-                    ])
-                    const altProject = await v0.projects.getById({ projectId: answer.projectId })
-                    if (!altProject.vercelProjectId) {
-                        error('The selected project is still not linked to Vercel. Please link a Vercel project from the project page and retry.')
-                        process.exit(1)
-                    }
-                    resolvedProjectId = altProject.id
-                }
+                resolvedProjectId = (await ensureVercelProject(v0, resolvedProjectId, config.defaultProject)).id
 
                 const spinner2 = ora('Creating deployment...').start()
 
@@ -443,6 +687,7 @@ export function deployCommand(program: Command): void {
                 })
 
                 spinner2.succeed('Deployment created successfully!')
+                recordInLedger(deployment, 'from-chat', { note: options.note, tags: options.tag })
 
                 if (outputFormat === 'table') {
                     console.log(chalk.blue('Deployment Details:'))
@@ -452,13 +697,17 @@ export function deployCommand(program: Command): void {
                     console.log(`Version ID: ${deployment.versionId}`)
                     console.log(`Inspector URL: ${deployment.inspectorUrl}`)
                     console.log(`Web URL: ${deployment.webUrl}`)
-                } else {
+                } else if (!wait) {
                     formatOutput(deployment, outputFormat)
                 }
 
                 success(`Deployment URL: ${deployment.webUrl}`)
                 success(`Inspector URL: ${deployment.inspectorUrl}`)
 
+                if (wait) {
+                    await reportDeploymentWait(await waitForDeployment(v0, deployment.id, waitOptions), outputFormat, checks)
+                }
+
             } catch (err) {
                 error(`Failed to create deployment: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -475,16 +724,28 @@ export function deployCommand(program: Command): void {
         .option('-p, --project-name <name>', 'Project name (optional - will prompt if not provided)')
         .option('-s, --system <system>', 'System message for the chat')
         .option('-m, --model <model>', 'Model to use', 'v0-1.5-md')
+        .option('--message-file <path>', 'Read the message from a file (- for stdin)')
+        .option('--system-file <path>', 'Read the system message from a file (- for stdin)')
+        .option('--var <key=value>', 'Fill {{key}} placeholders in the message and system message (repeatable)', collectVars)
         .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--timeout <seconds>', 'Maximum time to wait for the generated version', '60')
+        .option('--poll-interval <seconds>', 'Polling interval while waiting', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
         .action(async (message, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
-
-                let chatMessage = message
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const waitOptions = waitOptionsFrom(options)
+
+                const [messageText, systemText] = await resolvePrompts([
+                    { inline: message, file: options.messageFile, flag: 'message', fileFlag: '--message-file' },
+                    { inline: options.system, file: options.systemFile, flag: '--system', fileFlag: '--system-file' },
+                ], options.var)
+                let chatMessage = messageText || ''
                 let projectName = options.projectName
 
                 // Interactive input if message not provided
@@ -539,7 +800,7 @@ export function deployCommand(program: Command): void {
                 // Create chat
                 const chat = await v0.chats.create({
                     message: chatMessage,
-                    system: options.system,
+                    system: systemText,
                     projectId: project.id,
                     chatPrivacy: 'private',
                     modelConfiguration: {
@@ -549,21 +810,12 @@ export function deployCommand(program: Command): void {
 
                 spinner2.succeed('Chat created successfully!')
 
-                // Wait a bit for the chat to process
-                const spinner3 = ora('Waiting for chat to process...').start()
-                // Poll for latestVersion up to ~60s
-                let chatDetails = await v0.chats.getById({ chatId: chat.id })
-                const startTime = Date.now()
-                while (!chatDetails.latestVersion && Date.now() - startTime < 60000) {
-                    await new Promise(resolve => setTimeout(resolve, 3000))
-                    chatDetails = await v0.chats.getById({ chatId: chat.id })
-                }
-                if (!chatDetails.latestVersion) {
-                    spinner3.fail('No version generated yet after waiting. Try again later.')
+                const waited = await waitForVersion(v0, chat.id, waitOptions)
+                if (waited.status !== 'completed' || !waited.version) {
+                    error(waitFailureMessage(waited))
                     info(`Chat URL: ${chat.webUrl}`)
-                    return
+                    process.exit(1)
                 }
-                spinner3.succeed('Chat processed successfully!')
 
                 const spinner4 = ora('Creating deployment...').start()
 
@@ -571,10 +823,11 @@ export function deployCommand(program: Command): void {
                 const deployment = await v0.deployments.create({
                     projectId: project.id,
                     chatId: chat.id,
-                    versionId: chatDetails.latestVersion.id
+                    versionId: waited.version.id
                 })
 
                 spinner4.succeed('Deployment created successfully!')
+                recordInLedger(deployment, 'quick', { note: options.note, tags: options.tag })
 
                 if (outputFormat === 'table') {
                     console.log(chalk.blue('Quick Deploy Summary:'))
@@ -605,12 +858,349 @@ export function deployCommand(program: Command): void {
             }
         })
 
+    // Local deploy - Upload a directory as a new chat and deploy it
+    deploy
+        .command('local')
+        .description('Deploy a local directory: upload it as a new chat, wait for the version and deploy it')
+        .argument('[dir]', 'Directory to upload', '.')
+        .option('-P, --project-id <id>', 'Vercel-linked project to deploy to (defaults to the default project)')
+        .option('-p, --project-name <name>', 'Select project by name')
+        .option('-n, --name <name>', 'Chat name (defaults to the directory name)')
+        .option('--lock-all-files', 'Lock all uploaded files')
+        .option('--max-file-size <bytes>', 'Skip files larger than this many bytes', String(DEFAULT_MAX_FILE_SIZE))
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (implies --wait; exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('--timeout <seconds>', 'Maximum time to wait for the version (and the deployment with --wait)', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval while waiting', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
+        .action(async (dir, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+                // --check implies --wait
+                const wait = options.wait || !!options.check
+
+                const { files, skipped, totalBytes } = collectLocalFiles(dir, { maxFileSize: parseMax(options.maxFileSize, '--max-file-size') })
+                skipped.forEach((s) => warning(`Skipping ${s.name}: ${s.reason}`))
+                if (files.length === 0) {
+                    error(`No files to upload in ${dir}`)
+                    process.exit(1)
+                }
+
+                // Resolve the project before uploading so the chat is created in it
+                let projectId: string | undefined = options.projectId
+                if (!projectId && options.projectName) {
+                    projectId = await findProjectByName(v0, options.projectName)
+                }
+                projectId = projectId || config.defaultProject || undefined
+                if (!projectId) {
+                    error('No project to deploy to. Provide --project-id/--project-name or set a default project via "v0 config set-default-project".')
+                    process.exit(1)
+                }
+                const project = await ensureVercelProject(v0, projectId, config.defaultProject)
+
+                const spinner = ora(`Uploading ${files.length} files (${totalBytes} bytes)...`).start()
+                const chat = await v0.chats.init({
+                    type: 'files',
+                    files: files.map((f) => ({ name: f.name, content: f.content, ...(options.lockAllFiles ? { locked: true } : {}) })),
+                    name: options.name || basename(resolve(dir)),
+                    projectId: project.id,
+                })
+                spinner.succeed('Chat initialized successfully!')
+
+                const waited = await waitForVersion(v0, chat.id, waitOptions)
+                if (waited.status !== 'completed' || !waited.version) {
+                    error(waitFailureMessage(waited))
+                    info(`Chat URL: ${chat.webUrl}`)
+                    process.exit(1)
+                }
+
+                const spinner2 = ora('Creating deployment...').start()
+                const deployment = await v0.deployments.create({
+                    projectId: project.id,
+                    chatId: chat.id,
+                    versionId: waited.version.id
+                })
+                spinner2.succeed('Deployment created successfully!')
+                recordInLedger(deployment, 'local', { note: options.note, tags: options.tag })
+
+                if (outputFormat === 'table') {
+                    console.log(chalk.blue('Local Deploy Summary:'))
+                    console.log(`Directory: ${resolve(dir)}`)
+                    console.log(`Files: ${files.length} (${totalBytes} bytes${skipped.length > 0 ? `, ${skipped.length} skipped` : ''})`)
+                    console.log(`Project: ${project.name} (${project.id})`)
+                    console.log(`Chat: ${chat.name || 'Unnamed'} (${chat.id})`)
+                    console.log(`Deployment: ${deployment.id}`)
+                    console.log(`Chat URL: ${chat.webUrl}`)
+                    console.log(`Deployment URL: ${deployment.webUrl}`)
+                    console.log(`Inspector URL: ${deployment.inspectorUrl}`)
+                } else if (!wait) {
+                    formatOutput({
+                        project: { id: project.id, name: project.name },
+                        chat: { id: chat.id, name: chat.name, webUrl: chat.webUrl },
+                        files: files.map((f) => ({ name: f.name, bytes: f.size })),
+                        skipped,
+                        deployment
+                    }, outputFormat)
+                }
+
+                success(`Deployment URL: ${deployment.webUrl}`)
+                success(`Inspector URL: ${deployment.inspectorUrl}`)
+
+                if (wait) {
+                    await reportDeploymentWait(await waitForDeployment(v0, deployment.id, waitOptions), outputFormat, checks)
+                }
+
+            } catch (err) {
+                error(`Failed to deploy local directory: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Apply a declarative deploy manifest
+    deploy
+        .command('apply')
+        .description(`Apply a deploy manifest (${DEFAULT_MANIFEST_FILE}): env vars, hooks and the deployment`)
+        .option('-f, --file <path>', 'Manifest file', DEFAULT_MANIFEST_FILE)
+        .option('--dry-run', 'Show the plan without applying it')
+        .option('-y, --yes', 'Apply without confirmation')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (implies --wait; exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
+        .action(async (options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+                // --check implies --wait
+                const wait = options.wait || !!options.check
+
+                // Validate before touching the API so manifest mistakes fail fast
+                const manifest = loadManifest(options.file)
+
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                const spinner = ora(`Resolving ${options.file}...`).start()
+                const plan = await planManifest(v0, manifest)
+                const changes = countChanges(plan)
+                spinner.succeed(`Plan: ${changes} change(s)`)
+
+                const summary = { project: plan.project, chat: plan.chat, versionId: plan.versionId, steps: plan.steps }
+                if (outputFormat === 'table') {
+                    printPlan(plan)
+                } else if (options.dryRun || changes === 0) {
+                    formatOutput(summary, outputFormat)
+                }
+
+                if (changes === 0) {
+                    info('Nothing to apply, everything is up to date')
+                    return
+                }
+                if (options.dryRun) {
+                    info('Dry run, no changes applied')
+                    return
+                }
+                if (!options.yes) {
+                    const answer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'confirm',
+                            message: `Apply ${changes} change(s) to ${plan.project.name}?`,
+                            default: false,
+                        },
+                    ])
+                    if (!answer.confirm) {
+                        info('Apply cancelled')
+                        return
+                    }
+                }
+
+                const applySpinner = ora('Applying manifest...').start()
+                const result = await applyPlan(v0, plan)
+                applySpinner.succeed(`Applied ${changes} change(s)`)
+                if (result.deployment) recordInLedger(result.deployment, 'apply', { note: options.note, tags: options.tag })
+
+                if (outputFormat !== 'table' && !(wait && result.deployment)) {
+                    formatOutput({ ...summary, deployment: result.deployment }, outputFormat)
+                }
+                if (result.deployment) {
+                    success(`Deployment URL: ${result.deployment.webUrl}`)
+                    success(`Inspector URL: ${result.deployment.inspectorUrl}`)
+                    if (wait) {
+                        await reportDeploymentWait(await waitForDeployment(v0, result.deployment.id, waitOptions), outputFormat, checks)
+                    }
+                }
+            } catch (err) {
+                error(`Failed to apply manifest: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Redeploy the previously deployed version of a chat
+    deploy
+        .command('rollback')
+        .description('Redeploy the version that was deployed before the current one')
+        .option('-P, --project-id <id>', 'Project ID (defaults to the chat\'s project or the default project)')
+        .option('-c, --chat-id <id>', 'Chat ID (prompts if the project has several chats)')
+        .option('--to <versionId>', 'Redeploy this version instead of the previous deployed one')
+        .option('-f, --force', 'Skip confirmation')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .option('--wait', 'Wait until the deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (implies --wait; exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('--timeout <seconds>', 'Maximum time to wait with --wait', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval with --wait', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
+        .action(async (options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+                // --check implies --wait
+                const wait = options.wait || !!options.check
+
+                // Resolve project: explicit > chat's project > defaultProject > prompt
+                let projectId: string | undefined = options.projectId
+                let chatId: string | undefined = options.chatId
+                if (!projectId && chatId) {
+                    projectId = (await v0.projects.getByChatId({ chatId })).id
+                }
+                projectId = projectId || config.defaultProject || undefined
+                if (!projectId) {
+                    const projectsResponse = await v0.projects.find()
+                    if (projectsResponse.data.length === 0) {
+                        error('No projects found. Create a project first.')
+                        process.exit(1)
+                    }
+                    const ans = await inquirer.prompt([
+                        {
+                            type: 'list',
+                            name: 'projectId',
+                            message: 'Select a project:',
+                            choices: projectsResponse.data.map((p) => ({ name: `${p.name} (${p.id})`, value: p.id })),
+                        },
+                    ])
+                    projectId = ans.projectId as string
+                }
+
+                const project = await v0.projects.getById({ projectId })
+                if (!project.vercelProjectId) {
+                    error('Project is not linked to Vercel (try: v0 vercel create).')
+                    process.exit(1)
+                }
+
+                if (!chatId) {
+                    if (project.chats.length === 0) {
+                        error('No chats found for this project.')
+                        process.exit(1)
+                    }
+                    if (project.chats.length === 1) {
+                        chatId = project.chats[0].id
+                    } else {
+                        const ans = await inquirer.prompt([
+                            {
+                                type: 'list',
+                                name: 'chatId',
+                                message: 'Select a chat:',
+                                choices: project.chats.map((c) => ({ name: `${c.name || 'Unnamed'} (${c.id})`, value: c.id })),
+                            },
+                        ])
+                        chatId = ans.chatId as string
+                    }
+                }
+
+                const spinner = ora('Finding previous deployment...').start()
+                const live = lastLedgerEntry(readLedger(), projectId, chatId!)
+                const { current, previous, staleLedger } = await findRollbackTarget(v0, projectId, chatId!, live?.deploymentId)
+                if (staleLedger && !options.to) {
+                    spinner.fail(`Deployment ${live!.deploymentId}, the last one in the local ledger, no longer exists, so the live version is unknown. Pass the version to redeploy with --to`)
+                    process.exit(1)
+                }
+                let targetVersionId: string | undefined = options.to || previous?.version.id
+                if (!targetVersionId) {
+                    spinner.fail(current ? 'No earlier deployment to roll back to' : 'No deployments found for this chat')
+                    process.exit(1)
+                }
+                if (options.to) {
+                    targetVersionId = (await v0.chats.getVersion({ chatId: chatId!, versionId: options.to })).id
+                }
+                if (current && current.version.id === targetVersionId) {
+                    spinner.fail(`Version ${targetVersionId} is already the current deployment`)
+                    process.exit(1)
+                }
+                spinner.succeed(`Rolling back ${current ? current.version.id : '(none)'} → ${targetVersionId}`)
+
+                if (!options.force) {
+                    const ans = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'confirm',
+                            message: `Redeploy version ${targetVersionId} to ${project.name}?`,
+                            default: false,
+                        },
+                    ])
+                    if (!ans.confirm) {
+                        info('Rollback cancelled')
+                        return
+                    }
+                }
+
+                const deploySpinner = ora('Creating deployment...').start()
+                const deployment = await v0.deployments.create({ projectId, chatId: chatId!, versionId: targetVersionId })
+                deploySpinner.succeed('Deployment created successfully!')
+                recordInLedger(deployment, 'rollback', { note: options.note, tags: options.tag })
+
+                if (outputFormat !== 'table' && !wait) {
+                    formatOutput({ ...deployment, rolledBackFrom: current?.version.id }, outputFormat)
+                }
+                success(`Deployment URL: ${deployment.webUrl}`)
+                success(`Inspector URL: ${deployment.inspectorUrl}`)
+
+                if (wait) {
+                    await reportDeploymentWait(await waitForDeployment(v0, deployment.id, waitOptions), outputFormat, checks)
+                }
+            } catch (err) {
+                error(`Failed to roll back: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Get deployment details
     deploy
         .command('get')
         .description('Get deployment details')
         .argument('<deploymentId>', 'Deployment ID')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (deploymentId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -618,6 +1208,7 @@ export function deployCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching deployment details...').start()
 
@@ -625,7 +1216,7 @@ export function deployCommand(program: Command): void {
 
                 spinner.succeed('Deployment details retrieved')
 
-                if (config.outputFormat === 'table') {
+                if (outputFormat === 'table') {
                     console.log(chalk.blue('Deployment Details:'))
                     console.log(`ID: ${deployment.id}`)
                     console.log(`Project ID: ${deployment.projectId}`)
@@ -634,7 +1225,7 @@ export function deployCommand(program: Command): void {
                     console.log(`Inspector URL: ${deployment.inspectorUrl}`)
                     console.log(`Web URL: ${deployment.webUrl}`)
                 } else {
-                    formatOutput(deployment, config.outputFormat)
+                    formatOutput(deployment, outputFormat)
                 }
 
             } catch (err) {
@@ -695,7 +1286,10 @@ export function deployCommand(program: Command): void {
         .description('Get deployment logs')
         .argument('<deploymentId>', 'Deployment ID')
         .option('-s, --since <timestamp>', 'Get logs since timestamp')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-f, --follow', 'Keep polling for new logs until the deployment finishes (Ctrl-C to stop; table or ndjson output)')
+        .option('--poll-interval <seconds>', 'Polling interval with --follow', String(DEFAULT_POLL_INTERVAL))
+        .option('-g, --grep <pattern>', 'Only show lines matching a pattern (case-insensitive regex)')
+        .option('-o, --output <format>', 'Output format (json|table|yaml|ndjson)')
         .action(async (deploymentId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -703,6 +1297,42 @@ export function deployCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat<ListOutputFormat>(options.output, globalOpts.output, config.outputFormat, LIST_OUTPUT_FORMATS)
+                const waitOptions = waitOptionsFrom(options)
+                const grep = parseGrep(options.grep)
+                if (options.follow && (outputFormat === 'json' || outputFormat === 'yaml')) {
+                    error(`--follow streams lines as they arrive and cannot print one ${outputFormat} document. Use --output ndjson or table`)
+                    process.exit(1)
+                }
+
+                if (options.follow) {
+                    // Ctrl-C ends the follow loop cleanly instead of killing the process mid-poll
+                    const controller = new AbortController()
+                    const onInterrupt = () => controller.abort()
+                    process.once('SIGINT', onInterrupt)
+                    if (outputFormat === 'table') info(`Following logs for ${deploymentId} (Ctrl-C to stop)`)
+                    let result: FollowResult
+                    try {
+                        result = await followLogs(v0, deploymentId, {
+                            since: options.since,
+                            pollIntervalMs: waitOptions.pollIntervalMs,
+                            grep,
+                            ndjson: outputFormat === 'ndjson',
+                            signal: controller.signal,
+                        })
+                    } finally {
+                        process.removeListener('SIGINT', onInterrupt)
+                    }
+
+                    if (result.error) {
+                        error(`Deployment has errors: ${result.error}`)
+                        process.exit(1)
+                    }
+                    if (outputFormat === 'table' && !result.aborted) {
+                        success(`Deployment finished (${result.lines} log lines)`)
+                    }
+                    return
+                }
 
                 const spinner = ora('Fetching deployment logs...').start()
 
@@ -714,27 +1344,29 @@ export function deployCommand(program: Command): void {
                 spinner.succeed('Deployment logs retrieved')
 
                 if (logs.error) {
-                    // Assuming warning is defined elsewhere or needs to be imported
-                    // For now, commenting out as it's not in the original file
-                    // warning(`Deployment has errors: ${logs.error}`)
+                    warning(`Deployment has errors: ${logs.error}`)
                 }
 
-                if (config.outputFormat === 'table') {
-                    if (logs.logs.length === 0) {
+                const lines = grep ? logs.logs.filter((line) => grep.test(line)) : logs.logs
+
+                if (outputFormat === 'table') {
+                    if (lines.length === 0) {
                         info('No logs found')
                         return
                     }
 
                     console.log(chalk.blue('Deployment Logs:'))
-                    logs.logs.forEach((log, index) => {
+                    lines.forEach((log, index) => {
                         console.log(`${index + 1}. ${log}`)
                     })
 
                     if (logs.nextSince) {
                         console.log(chalk.gray(`\nNext logs available since: ${logs.nextSince}`))
                     }
+                } else if (outputFormat === 'ndjson') {
+                    lines.forEach((line) => printLogEntry(toLogEntry(deploymentId, line), true))
                 } else {
-                    formatOutput(logs, config.outputFormat)
+                    formatOutput({ ...logs, logs: lines }, outputFormat)
                 }
 
             } catch (err) {
@@ -745,17 +1377,49 @@ export function deployCommand(program: Command): void {
             }
         })
 
+    // Block until a deployment is live or failed
+    deploy
+        .command('wait')
+        .description('Wait until a deployment is live or failed (exit 2 on failure, 3 on timeout)')
+        .argument('<deploymentId>', 'Deployment ID')
+        .option('--timeout <seconds>', 'Maximum time to wait', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval', String(DEFAULT_POLL_INTERVAL))
+        .option('--check <check...>', 'Smoke check to run once live, as PATH[=STATUS][~TEXT] (exit 4 on failure)')
+        .option('--skip-checks', 'Skip the smoke checks set with config set-checks')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (deploymentId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const checks = smokeChecksFrom(options)
+                const waitOptions = waitOptionsFrom(options)
+
+                await reportDeploymentWait(await waitForDeployment(v0, deploymentId, waitOptions), outputFormat, checks, true)
+            } catch (err) {
+                error(`Failed to wait for deployment: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Get deployment errors
     deploy
         .command('errors')
         .description('Get deployment errors')
         .argument('<deploymentId>', 'Deployment ID')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (deploymentId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching deployment errors...').start()
 
@@ -763,7 +1427,7 @@ export function deployCommand(program: Command): void {
 
                 spinner.succeed('Deployment errors retrieved')
 
-                if (config.outputFormat === 'table') {
+                if (outputFormat === 'table') {
                     if (errors.error) {
                         console.log(chalk.red('Deployment Error:'))
                         console.log(`Error: ${errors.error}`)
@@ -783,7 +1447,7 @@ export function deployCommand(program: Command): void {
                         info('No errors found for this deployment')
                     }
                 } else {
-                    formatOutput(errors, config.outputFormat)
+                    formatOutput(errors, outputFormat)
                 }
 
             } catch (err) {
@@ -793,4 +1457,147 @@ export function deployCommand(program: Command): void {
                 process.exit(1)
             }
         })
-} 
\ No newline at end of file
+
+    // Feed build errors back into the chat and redeploy until the build is green
+    deploy
+        .command('fix')
+        .description('Send build errors to the deployment\'s chat, redeploy the fixed version and repeat until it is live')
+        .argument('<deploymentId>', 'Deployment ID')
+        .option('-n, --max-attempts <n>', 'Maximum number of fix attempts', String(DEFAULT_FIX_ATTEMPTS))
+        .option('--timeout <seconds>', 'Maximum time to wait for each deployment', String(DEFAULT_DEPLOY_TIMEOUT))
+        .option('--version-timeout <seconds>', 'Maximum time to wait for each fixed version', String(DEFAULT_WAIT_TIMEOUT))
+        .option('--poll-interval <seconds>', 'Polling interval', String(DEFAULT_POLL_INTERVAL))
+        .option('--note <text>', 'Note to record with the deployment in the local ledger')
+        .option('--tag <tag...>', 'Tag(s) to record with the deployment in the local ledger')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (deploymentId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey(globalOpts.apiKey)
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const deploymentWait = waitOptionsFrom(options)
+                const versionWait = waitOptionsFrom({ timeout: options.versionTimeout, pollInterval: options.pollInterval }, '--version-timeout')
+
+                const maxAttempts = parseInt(options.maxAttempts, 10)
+                if (!Number.isInteger(maxAttempts) || maxAttempts < 0) {
+                    error(`Invalid --max-attempts "${options.maxAttempts}". Expected a non-negative integer`)
+                    process.exit(1)
+                }
+
+                const result = await runFixLoop(v0, deploymentId, {
+                    maxAttempts,
+                    deploymentWait,
+                    versionWait,
+                    onDeployment: (deployment) => recordInLedger(deployment, 'fix', { note: options.note, tags: options.tag }),
+                    onAttempt: (attempt) => {
+                        if (outputFormat === 'table' && attempt.status === 'failed' && attempt.attempt < maxAttempts) {
+                            info(`Attempt ${attempt.attempt + 1}/${maxAttempts}: sending the build error to chat`)
+                        }
+                    },
+                })
+
+                if (outputFormat === 'table') {
+                    console.log(chalk.blue('Fix Attempts:'))
+                    formatOutput(result.attempts.map((a) => ({
+                        attempt: a.attempt === 0 ? 'original' : a.attempt,
+                        deployment: a.deploymentId,
+                        version: a.versionId,
+                        status: a.status,
+                        error: a.error || '',
+                    })), 'table')
+                } else {
+                    formatOutput(result, outputFormat)
+                }
+
+                const last = result.attempts[result.attempts.length - 1]
+                if (result.status === 'ready') {
+                    success(`Deployment ${last.deploymentId} is live`)
+                    return
+                }
+                error(result.reason || `Deployment ${last.deploymentId} ${result.status}`)
+                process.exit(result.status === 'timeout' ? EXIT_DEPLOY_TIMEOUT : EXIT_DEPLOY_FAILED)
+            } catch (err) {
+                error(`Failed to fix deployment: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Local audit trail of deployments created by this CLI
+    const ledger = deploy
+        .command('ledger')
+        .description('Local record of every deployment created by this CLI')
+
+    ledger
+        .command('list')
+        .description('List recorded deployments, newest first')
+        .option('-t, --tag <tag>', 'Only entries with this tag')
+        .option('-P, --project-id <id>', 'Only entries for this project')
+        .option('--since <when>', 'Only entries recorded since a duration (7d, 24h) or date')
+        .option('-l, --limit <number>', 'Maximum number of entries to show', '20')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                printLedger(ledgerEntries(options), outputFormat, parseMax(options.limit, '--limit'))
+            } catch (err) {
+                error(`Failed to read the deployment ledger: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                process.exit(1)
+            }
+        })
+
+    ledger
+        .command('search')
+        .description('Search recorded deployments by id, URL, note, tag, user or commit')
+        .argument('<query>', 'Text to search for (case-insensitive)')
+        .option('-t, --tag <tag>', 'Only entries with this tag')
+        .option('-P, --project-id <id>', 'Only entries for this project')
+        .option('--since <when>', 'Only entries recorded since a duration (7d, 24h) or date')
+        .option('-l, --limit <number>', 'Maximum number of entries to show', '20')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (query, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                printLedger(ledgerEntries(options, query), outputFormat, parseMax(options.limit, '--limit'))
+            } catch (err) {
+                error(`Failed to search the deployment ledger: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                process.exit(1)
+            }
+        })
+
+    ledger
+        .command('export')
+        .description('Export recorded deployments, oldest first')
+        .option('-f, --format <format>', `Export format (${LEDGER_EXPORT_FORMATS.join('|')})`, 'json')
+        .option('--out <file>', 'Write to a file instead of stdout')
+        .option('-t, --tag <tag>', 'Only entries with this tag')
+        .option('-P, --project-id <id>', 'Only entries for this project')
+        .option('--since <when>', 'Only entries recorded since a duration (7d, 24h) or date')
+        .action(async (options) => {
+            try {
+                if (!LEDGER_EXPORT_FORMATS.includes(options.format)) {
+                    error(`Invalid --format "${options.format}". Use one of: ${LEDGER_EXPORT_FORMATS.join(', ')}`)
+                    process.exit(1)
+                }
+                const entries = ledgerEntries(options)
+                const rendered = renderLedger(entries, options.format as LedgerExportFormat)
+                if (options.out) {
+                    writeFileSync(options.out, rendered)
+                    success(`Exported ${entries.length} entries to ${options.out}`)
+                } else {
+                    process.stdout.write(rendered)
+                }
+            } catch (err) {
+                error(`Failed to export the deployment ledger: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                process.exit(1)
+            }
+        })
+}
@@ -4,30 +4,8 @@ import ora from 'ora'
 import inquirer from 'inquirer'
 import { createClient } from 'v0-sdk'
 import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, success, error, info, printSdkError } from '../utils/output.js'
-
-type HookEvent =
-    | 'chat.created'
-    | 'chat.updated'
-    | 'chat.deleted'
-    | 'message.created'
-    | 'message.updated'
-    | 'message.deleted'
-    | 'project.created'
-    | 'project.updated'
-    | 'project.deleted'
-
-const ALL_EVENTS: HookEvent[] = [
-    'chat.created',
-    'chat.updated',
-    'chat.deleted',
-    'message.created',
-    'message.updated',
-    'message.deleted',
-    'project.created',
-    'project.updated',
-    'project.deleted',
-]
+import { formatOutput, success, error, info, printSdkError, resolveOutputFormat } from '../utils/output.js'
+import { ALL_EVENTS, HookEvent } from '../utils/hooks.js'
 
 export function hooksCommand(program: Command): void {
     const hook = program
@@ -46,7 +24,7 @@ export function hooksCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching hooks...').start()
                 const res = await v0.hooks.find()
@@ -83,7 +61,7 @@ export function hooksCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 let name: string | undefined = options.name
                 let url: string | undefined = options.url
@@ -153,7 +131,7 @@ export function hooksCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching hook...').start()
                 const hook = await v0.hooks.getById({ hookId })
@@ -184,7 +162,7 @@ export function hooksCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const updateData: any = {}
                 if (options.name) updateData.name = options.name
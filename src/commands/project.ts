@@ -1,10 +1,30 @@
 import { Command } from 'commander'
+import { readFileSync, writeFileSync } from 'fs'
 import chalk from 'chalk'
 import ora from 'ora'
 import inquirer from 'inquirer'
 import { createClient } from 'v0-sdk'
 import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, success, error, info, formatProject, printSdkError } from '../utils/output.js'
+import { formatOutput, success, error, info, warning, formatProject, printSdkError, resolveOutputFormat, maskValue, OUTPUT_FORMATS, OutputFormat } from '../utils/output.js'
+import { parseMax, wantsAllPages, withRateLimitRetry } from '../utils/paginate.js'
+import { diffEnv, displayEnvVar, envChangeRows, formatDotenv, hasEnvKey, isEnvFile, parseDotenv, parseEnvPairs, planEnvChanges, planEnvSync, readEnvSource, resolveEnvKeys } from '../utils/env.js'
+import { STDIN, readStdin } from '../utils/prompt.js'
+import { BUNDLE_FORMATS, CONFLICT_STRATEGIES, ConflictStrategy, ImportStep, bundleFormatFor, exportProjectBundle, importProjectBundle, parseBundle, renderBundle } from '../utils/bundle.js'
+
+// Full env values need --reveal, and a confirmation when they would land in a terminal
+async function confirmReveal(requested?: boolean): Promise<boolean> {
+    if (!requested) return false
+    if (!process.stdout.isTTY) return true
+    const answers = await inquirer.prompt([
+        {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Show environment variable values in plain text?',
+            default: false
+        }
+    ])
+    return answers.confirm
+}
 
 export function projectCommand(program: Command): void {
     const project = program
@@ -22,7 +42,7 @@ export function projectCommand(program: Command): void {
         .option('--privacy <privacy>', 'Project privacy (private|team)')
         .option('--vercel-project-id <id>', 'Link to a Vercel project ID')
         .option('--env <key=value...>', 'Environment variables to set on create')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (name, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -30,6 +50,7 @@ export function projectCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 let projectName = name
                 if (!projectName) {
@@ -49,21 +70,9 @@ export function projectCommand(program: Command): void {
                     projectName = answers.name
                 }
 
-                const spinner = ora('Creating project...').start()
+                const environmentVariables = options.env ? parseEnvPairs(options.env, '--env') : undefined
 
-                const envVarsInput: string[] | undefined = options.env
-                const environmentVariables = Array.isArray(envVarsInput)
-                    ? envVarsInput
-                        .map((pair) => {
-                            const idx = (pair as string).indexOf('=')
-                            if (idx === -1) return null
-                            const key = (pair as string).slice(0, idx)
-                            const value = (pair as string).slice(idx + 1)
-                            if (!key) return null
-                            return { key, value }
-                        })
-                        .filter(Boolean) as { key: string; value: string }[]
-                    : undefined
+                const spinner = ora('Creating project...').start()
 
                 const project = await v0.projects.create({
                     name: projectName,
@@ -77,10 +86,10 @@ export function projectCommand(program: Command): void {
 
                 spinner.succeed('Project created successfully!')
 
-                if (config.outputFormat === 'table') {
+                if (outputFormat === 'table') {
                     formatProject(project)
                 } else {
-                    formatOutput(project, config.outputFormat)
+                    formatOutput(project, outputFormat)
                 }
 
                 success(`Project URL: ${project.webUrl}`)
@@ -98,7 +107,9 @@ export function projectCommand(program: Command): void {
         .command('list')
         .description('List all projects')
         .option('-l, --limit <number>', 'Number of projects to show', '10')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-a, --all', 'Show every project')
+        .option('--max <n>', 'Show at most n projects')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -106,10 +117,11 @@ export function projectCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching projects...').start()
 
-                const response = await v0.projects.find()
+                const response = await withRateLimitRetry(() => v0.projects.find())
 
                 spinner.succeed(`Found ${response.data.length} projects`)
 
@@ -118,7 +130,9 @@ export function projectCommand(program: Command): void {
                     return
                 }
 
-                const projects = response.data.map(project => ({
+                // The projects endpoint returns a single page; --limit/--max cap it client-side
+                const max = wantsAllPages(options) ? parseMax(options.max) : parseMax(options.limit, '--limit')
+                const projects = response.data.slice(0, max).map(project => ({
                     id: project.id,
                     name: project.name,
                     description: 'No description', // ProjectSummary doesn't have description
@@ -126,7 +140,7 @@ export function projectCommand(program: Command): void {
                     url: project.webUrl
                 }))
 
-                formatOutput(projects, config.outputFormat)
+                formatOutput(projects, outputFormat)
 
             } catch (err) {
                 error(`Failed to list projects: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -141,7 +155,7 @@ export function projectCommand(program: Command): void {
         .command('get')
         .description('Get project details')
         .argument('<projectId>', 'Project ID')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -149,6 +163,7 @@ export function projectCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching project details...').start()
 
@@ -156,7 +171,7 @@ export function projectCommand(program: Command): void {
 
                 spinner.succeed('Project details retrieved')
 
-                if (config.outputFormat === 'table') {
+                if (outputFormat === 'table') {
                     formatProject(project)
 
                     if (project.chats && project.chats.length > 0) {
@@ -166,7 +181,7 @@ export function projectCommand(program: Command): void {
                         })
                     }
                 } else {
-                    formatOutput(project, config.outputFormat)
+                    formatOutput(project, outputFormat)
                 }
 
             } catch (err) {
@@ -186,12 +201,15 @@ export function projectCommand(program: Command): void {
         .option('-d, --description <description>', 'New project description')
         .option('-i, --instructions <instructions>', 'New project instructions')
         .option('--privacy <privacy>', 'Project privacy (private|team)')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const updateData: any = {}
                 if (options.name) updateData.name = options.name
@@ -212,7 +230,12 @@ export function projectCommand(program: Command): void {
                 })
 
                 spinner.succeed('Project updated successfully!')
-                formatProject(project)
+
+                if (outputFormat === 'table') {
+                    formatProject(project)
+                } else {
+                    formatOutput(project, outputFormat)
+                }
 
             } catch (err) {
                 error(`Failed to update project: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -260,7 +283,7 @@ export function projectCommand(program: Command): void {
         .command('get-by-chat')
         .description('Get project associated with a chat')
         .argument('<chatId>', 'Chat ID')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (chatId, options) => {
             try {
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -268,6 +291,7 @@ export function projectCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching project...').start()
 
@@ -275,10 +299,10 @@ export function projectCommand(program: Command): void {
 
                 spinner.succeed('Project retrieved')
 
-                if (config.outputFormat === 'table') {
+                if (outputFormat === 'table') {
                     formatProject(project)
                 } else {
-                    formatOutput(project, config.outputFormat)
+                    formatOutput(project, outputFormat)
                 }
 
             } catch (err) {
@@ -289,6 +313,115 @@ export function projectCommand(program: Command): void {
             }
         })
 
+    // Snapshot a project into a bundle file
+    project
+        .command('export')
+        .description('Export a project, its env var keys and the latest files of its chats as a bundle')
+        .argument('<projectId>', 'Project ID')
+        .option('-o, --output <file>', 'Bundle file (.json, .yaml or .yml), or json|yaml to print to stdout')
+        .option('--include-values', 'Include decrypted env var values (keep the bundle secret)')
+        .action(async (projectId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                // The global -o takes the flag when both are defined, so read either
+                const target: string = options.output || globalOpts.output || 'json'
+                const toStdout = (BUNDLE_FORMATS as readonly string[]).includes(target)
+                if (!toStdout && OUTPUT_FORMATS.includes(target as OutputFormat)) {
+                    error(`Bundles are written as ${BUNDLE_FORMATS.join(' or ')}, not ${target}`)
+                    process.exit(1)
+                }
+                // Values printed to stdout can land in a terminal, like env list --reveal
+                if (toStdout && options.includeValues && !(await confirmReveal(true))) {
+                    info('Export cancelled')
+                    return
+                }
+
+                const spinner = ora('Exporting project...').start()
+                const bundle = await exportProjectBundle(v0, projectId, {
+                    includeValues: !!options.includeValues,
+                    onProgress: (message) => { spinner.text = message },
+                })
+                spinner.succeed(`Exported ${bundle.project.name}: ${bundle.chats.length} chats, ${bundle.env.vars.length} env vars`)
+
+                const rendered = renderBundle(bundle, bundleFormatFor(target))
+                const encrypted = bundle.env.vars.filter((v) => v.encrypted).map((v) => v.key)
+                if (toStdout) {
+                    // stdout carries the bundle itself, so notes go to stderr
+                    process.stdout.write(rendered)
+                    if (encrypted.length > 0) console.error(`Encrypted values left out: ${encrypted.join(', ')}`)
+                } else {
+                    writeFileSync(target, rendered)
+                    success(`Bundle written to ${target}`)
+                    if (encrypted.length > 0) warning(`Encrypted values left out: ${encrypted.join(', ')}`)
+                    if (bundle.env.valuesIncluded) warning(`${target} contains env var values; keep it out of version control`)
+                }
+            } catch (err) {
+                error(`Failed to export project: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    // Recreate a project from a bundle
+    project
+        .command('import')
+        .description('Create a project, its chats and env vars from a bundle written by "project export"')
+        .argument('<file>', 'Bundle file (.json or .yaml, - for stdin)')
+        .option('-n, --name <name>', 'Name for the new project (defaults to the name in the bundle)')
+        .option('--on-conflict <strategy>', `What to do when a project with that name exists (${CONFLICT_STRATEGIES.join('|')})`, 'rename')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (file, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                if (!CONFLICT_STRATEGIES.includes(options.onConflict)) {
+                    error(`Invalid --on-conflict: ${options.onConflict}. Use one of ${CONFLICT_STRATEGIES.join(', ')}`)
+                    process.exit(1)
+                }
+
+                const source = file === STDIN ? 'stdin' : file
+                const bundle = parseBundle(file === STDIN ? await readStdin() : readFileSync(file, 'utf8'), source)
+
+                const spinner = ora(`Importing ${bundle.project.name}...`).start()
+                const result = await importProjectBundle(v0, bundle, {
+                    name: options.name,
+                    onConflict: options.onConflict as ConflictStrategy,
+                    onStep: (step) => { spinner.text = `Importing ${bundle.project.name}... ${step.resource} ${step.name}: ${step.result}` },
+                })
+                const failed = result.steps.filter((s) => s.result === 'failed')
+                const count = (resource: ImportStep['resource']) => result.steps.filter((s) => s.resource === resource && s.result === 'created').length
+                const summary = `${count('chat')} chats and ${count('env')} env vars created`
+                if (failed.length > 0) {
+                    spinner.fail(`Imported ${result.project.name} with ${failed.length} failure(s): ${summary}`)
+                } else {
+                    spinner.succeed(`Imported ${result.project.name}: ${summary}`)
+                }
+
+                if (outputFormat === 'table') {
+                    formatOutput(result.steps.map((s) => ({ resource: s.resource, name: s.name, result: s.result, id: s.id || '', detail: s.detail || '' })), 'table')
+                    success(`Project URL: ${result.project.webUrl}`)
+                } else {
+                    formatOutput(result, outputFormat)
+                }
+                if (failed.length > 0) process.exit(1)
+            } catch (err) {
+                error(`Failed to import project: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
     // Environment variables subcommands
     const env = project
         .command('env')
@@ -299,19 +432,24 @@ export function projectCommand(program: Command): void {
         .description('List environment variables')
         .argument('<projectId>', 'Project ID')
         .option('--decrypted', 'Return decrypted values when available')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('--reveal', 'Show full values instead of only the last 4 characters')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
-                const v0 = createClient({ apiKey })
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const reveal = await confirmReveal(options.reveal)
 
                 const spinner = ora('Fetching environment variables...').start()
                 const res = await v0.projects.findEnvVars({ projectId, decrypted: options.decrypted ? 'true' : undefined })
                 spinner.succeed(`Found ${res.data.length} environment variables`)
 
-                const rows = res.data.map((v: any) => ({ id: v.id, key: v.key, value: v.value, decrypted: v.decrypted }))
-                formatOutput(rows, options.output || config.outputFormat)
+                const rows = res.data.map((v) => displayEnvVar({ id: v.id, key: v.key, value: v.value, decrypted: v.decrypted }, reveal))
+                formatOutput(rows, outputFormat)
             } catch (err) {
                 error(`Failed to list env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -326,18 +464,23 @@ export function projectCommand(program: Command): void {
         .argument('<projectId>', 'Project ID')
         .argument('<envVarId>', 'Environment Variable ID')
         .option('--decrypted', 'Return decrypted value when available')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('--reveal', 'Show full values instead of only the last 4 characters')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, envVarId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
-                const v0 = createClient({ apiKey })
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const reveal = await confirmReveal(options.reveal)
 
                 const spinner = ora('Fetching environment variable...').start()
                 const res = await v0.projects.getEnvVar({ projectId, environmentVariableId: envVarId, decrypted: options.decrypted ? 'true' : undefined })
                 spinner.succeed('Environment variable retrieved')
 
-                formatOutput(res, options.output || config.outputFormat)
+                formatOutput({ ...res, data: displayEnvVar(res.data, reveal) }, outputFormat)
             } catch (err) {
                 error(`Failed to get env var: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -353,34 +496,30 @@ export function projectCommand(program: Command): void {
         .option('--var <key=value...>', 'Key=Value pair(s) to create')
         .option('--upsert', 'Upsert existing keys')
         .option('--decrypted', 'Return decrypted values in response')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('--reveal', 'Show full values instead of only the last 4 characters')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
-                const v0 = createClient({ apiKey })
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const reveal = await confirmReveal(options.reveal)
 
                 const varsInput: string[] | undefined = options.var
                 if (!varsInput || varsInput.length === 0) {
                     error('Provide at least one --var KEY=VALUE')
                     process.exit(1)
                 }
-                const envs = varsInput
-                    .map((pair) => {
-                        const idx = (pair as string).indexOf('=')
-                        if (idx === -1) return null
-                        const key = (pair as string).slice(0, idx)
-                        const value = (pair as string).slice(idx + 1)
-                        if (!key) return null
-                        return { key, value }
-                    })
-                    .filter(Boolean) as { key: string; value: string }[]
+                const envs = parseEnvPairs(varsInput)
 
                 const spinner = ora('Creating environment variables...').start()
                 const res = await v0.projects.createEnvVars({ projectId, decrypted: options.decrypted ? 'true' : undefined, environmentVariables: envs, upsert: !!options.upsert })
                 spinner.succeed('Environment variables created')
 
-                formatOutput(res, options.output || config.outputFormat)
+                formatOutput({ ...res, data: res.data.map((v) => displayEnvVar(v, reveal)) }, outputFormat)
             } catch (err) {
                 error(`Failed to create env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -395,34 +534,30 @@ export function projectCommand(program: Command): void {
         .argument('<projectId>', 'Project ID')
         .option('--var <id=value...>', 'Id=Value pair(s) to update')
         .option('--decrypted', 'Return decrypted values in response')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('--reveal', 'Show full values instead of only the last 4 characters')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
-                const v0 = createClient({ apiKey })
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+                const reveal = await confirmReveal(options.reveal)
 
                 const varsInput: string[] | undefined = options.var
                 if (!varsInput || varsInput.length === 0) {
                     error('Provide at least one --var ID=VALUE')
                     process.exit(1)
                 }
-                const envs = varsInput
-                    .map((pair) => {
-                        const idx = (pair as string).indexOf('=')
-                        if (idx === -1) return null
-                        const id = (pair as string).slice(0, idx)
-                        const value = (pair as string).slice(idx + 1)
-                        if (!id) return null
-                        return { id, value }
-                    })
-                    .filter(Boolean) as { id: string; value: string }[]
+                const envs = parseEnvPairs(varsInput, '--var', 'ID=VALUE').map(({ key, value }) => ({ id: key, value }))
 
                 const spinner = ora('Updating environment variables...').start()
                 const res = await v0.projects.updateEnvVars({ projectId, decrypted: options.decrypted ? 'true' : undefined, environmentVariables: envs })
                 spinner.succeed('Environment variables updated')
 
-                formatOutput(res, options.output || config.outputFormat)
+                formatOutput({ ...res, data: res.data.map((v) => displayEnvVar(v, reveal)) }, outputFormat)
             } catch (err) {
                 error(`Failed to update env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -436,12 +571,15 @@ export function projectCommand(program: Command): void {
         .description('Delete environment variables by ID')
         .argument('<projectId>', 'Project ID')
         .option('--id <envVarId...>', 'Environment variable ID(s) to delete')
-        .option('-o, --output <format>', 'Output format (json|table|yaml)', 'table')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
         .action(async (projectId, options) => {
             try {
+                const globalOpts = (program.opts && program.opts()) || {}
                 const apiKey = await ensureApiKey()
-                const v0 = createClient({ apiKey })
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const ids: string[] | undefined = options.id
                 if (!ids || ids.length === 0) {
@@ -453,7 +591,7 @@ export function projectCommand(program: Command): void {
                 const res = await v0.projects.deleteEnvVars({ projectId, environmentVariableIds: ids })
                 spinner.succeed('Environment variables deleted')
 
-                formatOutput(res, options.output || config.outputFormat)
+                formatOutput(res, outputFormat)
             } catch (err) {
                 error(`Failed to delete env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
                 const globalOpts = (program.opts && program.opts()) || {}
@@ -461,4 +599,332 @@ export function projectCommand(program: Command): void {
                 process.exit(1)
             }
         })
-} 
\ No newline at end of file
+
+    env
+        .command('set')
+        .description('Set environment variables by key, creating the ones that do not exist yet')
+        .argument('<projectId>', 'Project ID')
+        .argument('<pairs...>', 'KEY=VALUE pair(s)')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (projectId, pairs: string[], options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const vars = Object.fromEntries(parseEnvPairs(pairs, 'pair', 'KEY=VALUE').map((p) => [p.key, p.value]))
+
+                const spinner = ora('Setting environment variables...').start()
+                const existing = await v0.projects.findEnvVars({ projectId, decrypted: 'true' })
+                const changes = planEnvChanges(existing.data, vars, true)
+                if (changes.updates.length > 0) {
+                    await v0.projects.updateEnvVars({ projectId, environmentVariables: changes.updates.map(({ id, value }) => ({ id, value })) })
+                }
+                // upsert covers a key created by someone else since it was looked up
+                if (changes.creates.length > 0) {
+                    await v0.projects.createEnvVars({ projectId, environmentVariables: changes.creates, upsert: true })
+                }
+                spinner.succeed('Environment variables set')
+
+                if (outputFormat === 'table') {
+                    formatOutput(envChangeRows(changes), 'table')
+                } else {
+                    formatOutput({
+                        added: changes.creates.map((c) => c.key),
+                        updated: changes.updates.map((u) => u.key),
+                        skipped: changes.skipped,
+                    }, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to set env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    env
+        .command('unset')
+        .description('Delete environment variables by key')
+        .argument('<projectId>', 'Project ID')
+        .argument('<keys...>', 'Key(s) to delete')
+        .option('--ignore-missing', 'Do not fail on keys that are not set')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (projectId, keys: string[], options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const existing = await v0.projects.findEnvVars({ projectId })
+                const { found, missing } = resolveEnvKeys(existing.data, keys)
+                if (missing.length > 0 && !options.ignoreMissing) {
+                    error(`Not set in ${projectId}: ${missing.join(', ')}`)
+                    process.exit(1)
+                }
+                if (found.length === 0) {
+                    info('Nothing to delete')
+                    return
+                }
+
+                const spinner = ora('Deleting environment variables...').start()
+                await v0.projects.deleteEnvVars({ projectId, environmentVariableIds: found.map((f) => f.id) })
+                spinner.succeed('Environment variables deleted')
+
+                if (outputFormat === 'table') {
+                    success(`Deleted ${found.map((f) => f.key).join(', ')}`)
+                } else {
+                    formatOutput({ deleted: found.map((f) => f.key), missing }, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to unset env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    env
+        .command('import')
+        .description('Import environment variables from a .env file')
+        .argument('<projectId>', 'Project ID')
+        .option('-f, --file <path>', 'dotenv file to import (- for stdin)', '.env')
+        .option('--upsert', 'Overwrite keys that already exist')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (projectId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const source = options.file === STDIN ? 'stdin' : options.file
+                const text = options.file === STDIN ? await readStdin() : readFileSync(options.file, 'utf8')
+                const vars = parseDotenv(text, source)
+                if (Object.keys(vars).length === 0) {
+                    info(`No environment variables found in ${source}`)
+                    return
+                }
+
+                const spinner = ora('Importing environment variables...').start()
+                const existing = await v0.projects.findEnvVars({ projectId, decrypted: 'true' })
+                const changes = planEnvChanges(existing.data, vars, !!options.upsert)
+                if (changes.creates.length > 0) {
+                    await v0.projects.createEnvVars({ projectId, environmentVariables: changes.creates })
+                }
+                if (changes.updates.length > 0) {
+                    await v0.projects.updateEnvVars({ projectId, environmentVariables: changes.updates.map(({ id, value }) => ({ id, value })) })
+                }
+                spinner.succeed('Environment variables imported')
+
+                if (outputFormat === 'table') {
+                    formatOutput(envChangeRows(changes), 'table')
+                    success(`Added ${changes.creates.length}, updated ${changes.updates.length}, skipped ${changes.skipped.length}`)
+                } else {
+                    formatOutput({
+                        added: changes.creates.map((c) => c.key),
+                        updated: changes.updates.map((u) => u.key),
+                        skipped: changes.skipped,
+                    }, outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to import env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    env
+        .command('export')
+        .description('Export environment variables as a .env file')
+        .argument('<projectId>', 'Project ID')
+        .option('--decrypted', 'Export decrypted values (encrypted values are left out)')
+        .option('--out <file>', 'Write to a file instead of stdout')
+        .action(async (projectId, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+
+                // Same guard as project export --include-values
+                if (!options.out && options.decrypted && !(await confirmReveal(true))) {
+                    info('Export cancelled')
+                    return
+                }
+
+                const spinner = ora('Fetching environment variables...').start()
+                const res = await v0.projects.findEnvVars({ projectId, decrypted: options.decrypted ? 'true' : undefined })
+                spinner.succeed(`Found ${res.data.length} environment variables`)
+
+                // An encrypted value is useless in a .env file, so those keys are only listed as comments
+                const exported = res.data.filter((v) => v.decrypted)
+                const skipped = res.data.filter((v) => !v.decrypted)
+                const rendered = formatDotenv(exported) + skipped.map((v) => `# ${v.key}= (encrypted; export with --decrypted)\n`).join('')
+                const skippedNote = skipped.length > 0
+                    ? `Skipped ${skipped.length} encrypted key(s): ${skipped.map((v) => v.key).join(', ')} (use --decrypted)`
+                    : undefined
+
+                if (options.out) {
+                    writeFileSync(options.out, rendered)
+                    success(`Exported ${exported.length} keys to ${options.out}`)
+                    if (skippedNote) warning(skippedNote)
+                } else {
+                    // stdout carries the file itself, so the report goes to stderr
+                    process.stdout.write(rendered)
+                    console.error(`Exported ${exported.length} keys`)
+                    if (skippedNote) console.error(skippedNote)
+                }
+            } catch (err) {
+                error(`Failed to export env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    env
+        .command('diff')
+        .description('Compare the environment variables of two projects, or of a project and a .env file')
+        .argument('<left>', 'Project ID or .env file')
+        .argument('<right>', 'Project ID or .env file')
+        .option('--show-values', 'Show values instead of masking them')
+        .option('-a, --all', 'Also list keys that are the same on both sides')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (left, right, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                const spinner = ora('Fetching environment variables...').start()
+                const [a, b] = await Promise.all([readEnvSource(v0, left), readEnvSource(v0, right)])
+                spinner.succeed('Environment variables fetched')
+
+                const entries = diffEnv(a, b)
+                const differing = entries.filter((e) => e.status !== 'same')
+                const shown = options.all ? entries : differing
+                const showValues = await confirmReveal(options.showValues)
+                const display = (value?: string) => value === undefined ? undefined : showValues ? value : maskValue(value)
+
+                if (outputFormat === 'table') {
+                    if (shown.length > 0) {
+                        // Fixed column names: the labels can be equal or too long for a header
+                        info(`left: ${a.label}, right: ${b.label}`)
+                        formatOutput(shown.map((e) => ({
+                            key: e.key,
+                            status: e.status,
+                            left: hasEnvKey(a, e.key) ? display(e.left) ?? '(encrypted)' : '',
+                            right: hasEnvKey(b, e.key) ? display(e.right) ?? '(encrypted)' : '',
+                        })), 'table')
+                    }
+                    info(`${differing.length} key(s) differ, ${entries.length - differing.length} identical`)
+                } else {
+                    formatOutput(shown.map((e) => ({ ...e, left: display(e.left), right: display(e.right) })), outputFormat)
+                }
+            } catch (err) {
+                error(`Failed to diff env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+
+    env
+        .command('sync')
+        .description('Make a project\'s environment variables match another project or a .env file')
+        .argument('<from>', 'Source project ID or .env file')
+        .argument('<to>', 'Target project ID')
+        .option('--prune', 'Delete keys the source does not have')
+        .option('--dry-run', 'Show the changes without applying them')
+        .option('-y, --yes', 'Skip the confirmation before deleting keys with --prune')
+        .option('-o, --output <format>', 'Output format (json|table|yaml)')
+        .action(async (from, to, options) => {
+            try {
+                const globalOpts = (program.opts && program.opts()) || {}
+                const apiKey = await ensureApiKey()
+                const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
+                const v0 = createClient({ apiKey, baseUrl })
+                const config = getConfig()
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
+
+                if (isEnvFile(to)) {
+                    error(`The sync target must be a project ID, not a file: ${to}`)
+                    process.exit(1)
+                }
+
+                const spinner = ora('Fetching environment variables...').start()
+                const [source, target] = await Promise.all([readEnvSource(v0, from), readEnvSource(v0, to)])
+                spinner.succeed('Environment variables fetched')
+
+                const changes = planEnvSync(target.records || [], source, !!options.prune)
+                const rows = envChangeRows(changes)
+                const total = changes.creates.length + changes.updates.length + changes.deletes.length
+                const report = () => {
+                    if (outputFormat === 'table') {
+                        if (total > 0) formatOutput(rows.filter((r) => r.result !== 'skipped' || r.detail !== 'unchanged'), 'table')
+                    } else {
+                        formatOutput({ dryRun: !!options.dryRun, changes: rows }, outputFormat)
+                    }
+                }
+
+                if (total === 0) {
+                    report()
+                    success(`${to} is already in sync with ${from}`)
+                    return
+                }
+                if (options.dryRun) {
+                    report()
+                    info(`Dry run: would add ${changes.creates.length}, update ${changes.updates.length}, delete ${changes.deletes.length}`)
+                    return
+                }
+                if (changes.deletes.length > 0 && !options.yes) {
+                    const answers = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'confirm',
+                            message: `Delete ${changes.deletes.length} key(s) from ${to}: ${changes.deletes.map((d) => d.key).join(', ')}?`,
+                            default: false
+                        }
+                    ])
+                    if (!answers.confirm) {
+                        info('Sync cancelled')
+                        return
+                    }
+                }
+
+                // At most one call per kind of change
+                const applying = ora('Syncing environment variables...').start()
+                if (changes.creates.length > 0) {
+                    await v0.projects.createEnvVars({ projectId: to, environmentVariables: changes.creates })
+                }
+                if (changes.updates.length > 0) {
+                    await v0.projects.updateEnvVars({ projectId: to, environmentVariables: changes.updates.map(({ id, value }) => ({ id, value })) })
+                }
+                if (changes.deletes.length > 0) {
+                    await v0.projects.deleteEnvVars({ projectId: to, environmentVariableIds: changes.deletes.map((d) => d.id) })
+                }
+                applying.succeed('Environment variables synced')
+
+                report()
+                success(`Added ${changes.creates.length}, updated ${changes.updates.length}, deleted ${changes.deletes.length}`)
+            } catch (err) {
+                error(`Failed to sync env vars: ${err instanceof Error ? err.message : 'Unknown error'}`)
+                const globalOpts = (program.opts && program.opts()) || {}
+                printSdkError(err, !!globalOpts.verbose)
+                process.exit(1)
+            }
+        })
+}
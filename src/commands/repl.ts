@@ -0,0 +1,233 @@
+import chalk from 'chalk'
+import ora from 'ora'
+import { createInterface } from 'readline'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { createClient } from 'v0-sdk'
+import { getConfig, getConfigDir } from '../utils/config.js'
+import { success, error, info, warning, printSdkError } from '../utils/output.js'
+import { resolveAttachments } from '../utils/attachments.js'
+import { writeVersionFiles } from '../utils/files.js'
+import { recordInLedger } from '../utils/ledger.js'
+
+type V0Client = ReturnType<typeof createClient>
+
+export interface ReplOptions {
+    model?: string
+    dir?: string
+    projectId?: string
+    verbose?: boolean
+    input?: NodeJS.ReadableStream
+    output?: NodeJS.WritableStream
+    historyFile?: string
+}
+
+interface ReplState {
+    chatId: string
+    model?: string
+    attachments: string[]
+}
+
+const HISTORY_SIZE = 500
+
+const HELP = [
+    '/model [id]             Show or switch the model used for the next messages',
+    '/attach [url...|clear]  Queue attachment URL(s) or local files for the next message',
+    '/fork [versionId]       Fork the chat and continue in the fork',
+    '/pull [dir] [--force]   Write the latest version files to a directory',
+    '/deploy [projectId]     Deploy the latest version',
+    '/history [n]            Show the last n messages (default 10)',
+    '/help                   Show this help',
+    '/exit                   Leave the REPL',
+]
+
+export function replHistoryPath(chatId: string): string {
+    return join(getConfigDir(), 'history', `${chatId}.txt`)
+}
+
+// History files are stored oldest-first; readline keeps the most recent entry first
+function loadHistory(path: string): string[] {
+    if (!existsSync(path)) return []
+    return readFileSync(path, 'utf8').split('\n').filter(Boolean).reverse().slice(0, HISTORY_SIZE)
+}
+
+function saveHistory(path: string, history: string[]): void {
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, [...history].reverse().join('\n') + '\n')
+}
+
+function writeHistory(path: string, history: string[]): void {
+    try {
+        saveHistory(path, history)
+    } catch {
+        // History is a convenience; never fail the session over it
+    }
+}
+
+function printReply(chat: any): void {
+    const replies = (chat.messages || []).filter((m: any) => m.role === 'assistant')
+    const reply = replies.length > 0 ? replies[replies.length - 1].content : chat.text
+    if (reply) console.log(`\n${reply}\n`)
+    if (chat.latestVersion) {
+        const demo = chat.latestVersion.demoUrl ? ` ${chat.latestVersion.demoUrl}` : ''
+        console.log(chalk.gray(`Version ${chat.latestVersion.id} (${chat.latestVersion.status})${demo}`))
+    }
+}
+
+async function handleCommand(v0: V0Client, state: ReplState, input: string, options: ReplOptions): Promise<void> {
+    const [command, ...args] = input.slice(1).split(/\s+/).filter(Boolean)
+
+    switch (command) {
+        case 'help':
+            HELP.forEach((line) => console.log(line))
+            return
+        case 'model':
+            if (args[0]) state.model = args[0]
+            info(`Model: ${state.model || 'default'}`)
+            return
+        case 'attach':
+            if (args[0] === 'clear') {
+                state.attachments = []
+            } else {
+                state.attachments.push(...args)
+            }
+            info(state.attachments.length > 0 ? `Attachments: ${state.attachments.join(', ')}` : 'No attachments queued')
+            return
+        case 'fork': {
+            const spinner = ora('Forking chat...').start()
+            const forked = await v0.chats.fork({ chatId: state.chatId, versionId: args[0] })
+            spinner.succeed(`Forked into ${forked.id}`)
+            state.chatId = forked.id
+            success(`Now chatting in ${forked.webUrl}`)
+            return
+        }
+        case 'pull': {
+            const force = args.includes('--force')
+            const dir = args.find((a) => a !== '--force') || options.dir || '.'
+            const chat = await v0.chats.getById({ chatId: state.chatId })
+            if (!chat.latestVersion) {
+                warning('This chat has no versions yet')
+                return
+            }
+            const { plan, conflicts, written } = writeVersionFiles(dir, state.chatId, chat.latestVersion, force)
+            if (!written) {
+                warning(`Not pulled: ${conflicts.map((c) => c.name).join(', ')} modified locally (use /pull ${dir} --force)`)
+                return
+            }
+            const changed = plan.filter((entry) => entry.status !== 'unchanged').length
+            success(`Pulled ${chat.latestVersion.id} into ${dir} (${changed} of ${plan.length} files written)`)
+            return
+        }
+        case 'deploy': {
+            const chat = await v0.chats.getById({ chatId: state.chatId })
+            if (!chat.latestVersion) {
+                warning('This chat has no versions yet')
+                return
+            }
+            const projectId = args[0] || options.projectId || chat.projectId || getConfig().defaultProject
+            if (!projectId) {
+                warning('No project for this chat. Use /deploy PROJECT_ID')
+                return
+            }
+            const spinner = ora('Creating deployment...').start()
+            const deployment = await v0.deployments.create({ projectId, chatId: state.chatId, versionId: chat.latestVersion.id })
+            spinner.succeed('Deployment created successfully!')
+            recordInLedger(deployment, 'repl')
+            success(`Deployment URL: ${deployment.webUrl}`)
+            return
+        }
+        case 'history': {
+            const limit = args[0] || '10'
+            const res = await v0.chats.findMessages({ chatId: state.chatId, limit })
+            const messages = [...res.data].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+            messages.forEach((m) => {
+                console.log(`${chalk.blue(m.role)}: ${(m.content || '').replace(/\s+/g, ' ').slice(0, 120)}`)
+            })
+            return
+        }
+        default:
+            warning(`Unknown command /${command}. Type /help for a list of commands.`)
+    }
+}
+
+async function sendMessage(v0: V0Client, state: ReplState, message: string): Promise<void> {
+    const { attachments, inlined } = resolveAttachments(state.attachments)
+    inlined.forEach((a) => info(`Inlined ${a.path} (${a.mimeType}, ${a.bytes} bytes)`))
+    const spinner = ora('Waiting for v0...').start()
+    const chat = await v0.chats.sendMessage({
+        chatId: state.chatId,
+        message,
+        attachments,
+        modelConfiguration: state.model ? { modelId: state.model as any } : undefined,
+    })
+    spinner.succeed('Response received')
+    state.attachments = []
+    printReply(chat)
+}
+
+export function runChatRepl(v0: V0Client, chatId: string, options: ReplOptions = {}): Promise<void> {
+    const state: ReplState = { chatId, model: options.model, attachments: [] }
+    // History belongs to the active chat, which changes after /fork
+    const historyFileFor = (id: string) => options.historyFile || replHistoryPath(id)
+    let historyChatId = chatId
+    let history = loadHistory(historyFileFor(chatId))
+
+    const rl = createInterface({
+        input: options.input || process.stdin,
+        output: options.output || process.stdout,
+        history,
+        historySize: HISTORY_SIZE,
+    })
+    rl.on('history', (updated: string[]) => {
+        history = updated
+    })
+    rl.setPrompt(chalk.blue('v0> '))
+
+    info(`Chatting in ${chatId}. Type /help for commands, /exit to leave.`)
+
+    let closed = false
+    let exited = false
+    let queue = Promise.resolve()
+
+    return new Promise((resolve) => {
+        // Lines are handled one at a time so replies print in order
+        rl.on('line', (line) => {
+            queue = queue.then(async () => {
+                const input = line.trim()
+                if (exited || !input) return
+                if (input === '/exit' || input === '/quit') {
+                    exited = true
+                    rl.close()
+                    return
+                }
+                try {
+                    if (input.startsWith('/')) {
+                        await handleCommand(v0, state, input, options)
+                    } else {
+                        await sendMessage(v0, state, input)
+                    }
+                } catch (err) {
+                    error(err instanceof Error ? err.message : 'Unknown error')
+                    printSdkError(err, !!options.verbose)
+                }
+                if (state.chatId !== historyChatId) {
+                    // Keep what was typed so far with the chat it was typed in
+                    writeHistory(historyFileFor(historyChatId), history)
+                    historyChatId = state.chatId
+                }
+            }).finally(() => {
+                if (!closed) rl.prompt()
+            })
+        })
+
+        rl.on('close', () => {
+            closed = true
+            queue.then(() => {
+                writeHistory(historyFileFor(historyChatId), history)
+                resolve()
+            })
+        })
+
+        rl.prompt()
+    })
+}
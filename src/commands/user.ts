@@ -3,7 +3,7 @@ import chalk from 'chalk'
 import ora from 'ora'
 import { createClient } from 'v0-sdk'
 import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, success, error, info, formatUser, printSdkError } from '../utils/output.js'
+import { formatOutput, success, error, info, formatUser, printSdkError, resolveOutputFormat } from '../utils/output.js'
 
 export function userCommand(program: Command): void {
     const user = program
@@ -22,7 +22,7 @@ export function userCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching user information...').start()
 
@@ -56,7 +56,7 @@ export function userCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching user plan...').start()
 
@@ -96,7 +96,7 @@ export function userCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching billing information...').start()
 
@@ -152,7 +152,7 @@ export function userCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching user scopes...').start()
 
@@ -194,7 +194,7 @@ export function userCommand(program: Command): void {
                 const apiKey = await ensureApiKey(globalOpts.apiKey)
                 const v0 = createClient({ apiKey })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching rate limits...').start()
 
@@ -4,7 +4,7 @@ import ora from 'ora'
 import inquirer from 'inquirer'
 import { createClient } from 'v0-sdk'
 import { ensureApiKey, getConfig, resolveBaseUrl } from '../utils/config.js'
-import { formatOutput, error, info, success, printSdkError } from '../utils/output.js'
+import { formatOutput, error, info, success, printSdkError, resolveOutputFormat } from '../utils/output.js'
 
 export function vercelCommand(program: Command): void {
     const vercel = program
@@ -23,7 +23,7 @@ export function vercelCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Fetching Vercel projects...').start()
                 const response = await v0.integrations.vercel.projects.find()
@@ -62,7 +62,7 @@ export function vercelCommand(program: Command): void {
                 const baseUrl = resolveBaseUrl(globalOpts.baseUrl)
                 const v0 = createClient({ apiKey, baseUrl })
                 const config = getConfig()
-                const outputFormat = (options.output || globalOpts.output || config.outputFormat) as 'json' | 'table' | 'yaml'
+                const outputFormat = resolveOutputFormat(options.output, globalOpts.output, config.outputFormat)
 
                 const spinner = ora('Creating v0 integration project...').start()
                 const integration = await v0.integrations.vercel.projects.create({
@@ -0,0 +1,86 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { extname } from 'path'
+
+export const DEFAULT_MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024
+
+export interface InlinedAttachment {
+    path: string
+    mimeType: string
+    bytes: number
+}
+
+export interface ResolvedAttachments {
+    attachments: { url: string }[] | undefined
+    inlined: InlinedAttachment[]
+}
+
+// Magic numbers checked before falling back to the file extension
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+    { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+    { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+    { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+]
+
+const EXTENSIONS: Record<string, string> = {
+    '.svg': 'image/svg+xml',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.json': 'application/json',
+    '.csv': 'text/csv',
+    '.html': 'text/html',
+    '.css': 'text/css',
+    '.js': 'text/javascript',
+    '.ts': 'text/plain',
+    '.tsx': 'text/plain',
+}
+
+// Anything with a scheme (https:, data:, blob:) is passed through as a URL
+export function isUrl(value: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:/i.test(value) && !/^[a-z]:[\\/]/i.test(value)
+}
+
+export function sniffMimeType(buf: Buffer, path: string): string {
+    for (const sig of SIGNATURES) {
+        const offset = sig.offset ?? 0
+        if (buf.length >= offset + sig.bytes.length && sig.bytes.every((b, i) => buf[offset + i] === b)) {
+            return sig.mimeType
+        }
+    }
+    const byExtension = EXTENSIONS[extname(path).toLowerCase()]
+    if (byExtension) return byExtension
+    return buf.subarray(0, 8000).includes(0) ? 'application/octet-stream' : 'text/plain'
+}
+
+export function toDataUrl(path: string, maxSize = DEFAULT_MAX_ATTACHMENT_SIZE): { url: string; inlined: InlinedAttachment } {
+    if (!existsSync(path) || !statSync(path).isFile()) {
+        throw new Error(`Attachment not found: ${path}`)
+    }
+    const size = statSync(path).size
+    if (size > maxSize) {
+        throw new Error(`Attachment ${path} is ${size} bytes, over the ${maxSize} byte limit`)
+    }
+    const buf = readFileSync(path)
+    const mimeType = sniffMimeType(buf, path)
+    return {
+        url: `data:${mimeType};base64,${buf.toString('base64')}`,
+        inlined: { path, mimeType, bytes: size },
+    }
+}
+
+// Keep URLs as-is and inline local paths as data URLs
+export function resolveAttachments(values: string[] | undefined, maxSize = DEFAULT_MAX_ATTACHMENT_SIZE): ResolvedAttachments {
+    if (!Array.isArray(values) || values.length === 0) {
+        return { attachments: undefined, inlined: [] }
+    }
+    const inlined: InlinedAttachment[] = []
+    const attachments = values.map((value) => {
+        if (isUrl(value)) return { url: value }
+        const resolved = toDataUrl(value, maxSize)
+        inlined.push(resolved.inlined)
+        return { url: resolved.url }
+    })
+    return { attachments, inlined }
+}
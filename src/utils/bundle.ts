@@ -0,0 +1,252 @@
+import YAML from 'yaml'
+import { createClient } from 'v0-sdk'
+import { VersionFile } from './files.js'
+import { redactText } from './output.js'
+
+type V0Client = ReturnType<typeof createClient>
+type ProjectDetail = Awaited<ReturnType<V0Client['projects']['getById']>>
+type ChatPrivacy = ProjectDetail['chats'][number]['privacy']
+
+export const BUNDLE_VERSION = 1
+
+export const BUNDLE_FORMATS = ['json', 'yaml'] as const
+export type BundleFormat = typeof BUNDLE_FORMATS[number]
+
+export const CONFLICT_STRATEGIES = ['rename', 'fail'] as const
+export type ConflictStrategy = typeof CONFLICT_STRATEGIES[number]
+
+export interface BundleEnvVar {
+    key: string
+    // Only present when the bundle was exported with values
+    value?: string
+    // The API would not decrypt the value, so it could not be exported
+    encrypted?: boolean
+}
+
+export interface BundleChat {
+    id: string
+    name?: string
+    privacy: ChatPrivacy
+    versionId?: string
+    // Files of the latest version; empty when the chat has none
+    files: VersionFile[]
+}
+
+export interface ProjectBundle {
+    version: typeof BUNDLE_VERSION
+    exportedAt: string
+    project: {
+        id: string
+        name: string
+        description?: string
+        instructions?: string
+        privacy: ProjectDetail['privacy']
+        vercelProjectId?: string
+    }
+    env: {
+        // Set when values were exported; bundles with values must be kept secret
+        valuesIncluded: boolean
+        vars: BundleEnvVar[]
+    }
+    chats: BundleChat[]
+}
+
+export interface BundleExportOptions {
+    includeValues?: boolean
+    onProgress?: (message: string) => void
+}
+
+export type ImportResult = 'created' | 'skipped' | 'failed'
+
+export interface ImportStep {
+    resource: 'project' | 'env' | 'chat'
+    name: string
+    result: ImportResult
+    id?: string
+    detail?: string
+}
+
+export interface BundleImportOptions {
+    // Name for the new project; defaults to the bundle's project name
+    name?: string
+    onConflict?: ConflictStrategy
+    onStep?: (step: ImportStep) => void
+}
+
+export interface BundleImportResult {
+    project: { id: string; name: string; webUrl: string }
+    steps: ImportStep[]
+}
+
+// "yaml" or a .yaml/.yml path selects YAML; anything else is JSON
+export function bundleFormatFor(target: string): BundleFormat {
+    return /^ya?ml$|\.ya?ml$/i.test(target) ? 'yaml' : 'json'
+}
+
+export function renderBundle(bundle: ProjectBundle, format: BundleFormat): string {
+    return format === 'yaml' ? YAML.stringify(bundle) : JSON.stringify(bundle, null, 2) + '\n'
+}
+
+// YAML is a superset of JSON, so one parser reads both formats
+export function parseBundle(text: string, source = 'bundle'): ProjectBundle {
+    let data: any
+    try {
+        data = YAML.parse(text)
+    } catch (err) {
+        throw new Error(`Invalid bundle ${source}: ${err instanceof Error ? err.message : 'could not be parsed'}`)
+    }
+
+    const issues: string[] = []
+    if (!data || typeof data !== 'object') {
+        throw new Error(`Invalid bundle ${source}: expected an object`)
+    }
+    if (data.version !== BUNDLE_VERSION) issues.push(`unsupported version ${JSON.stringify(data.version)} (expected ${BUNDLE_VERSION})`)
+    if (!data.project || typeof data.project.name !== 'string' || !data.project.name) issues.push('project.name is required')
+    if (!data.env || !Array.isArray(data.env.vars)) {
+        issues.push('env.vars must be a list')
+    } else {
+        data.env.vars.forEach((v: any, i: number) => {
+            if (!v || typeof v.key !== 'string' || !v.key) issues.push(`env.vars[${i}].key is required`)
+            else if (v.value !== undefined && typeof v.value !== 'string') issues.push(`env.vars[${i}].value must be a string`)
+        })
+    }
+    if (!Array.isArray(data.chats)) {
+        issues.push('chats must be a list')
+    } else {
+        data.chats.forEach((c: any, i: number) => {
+            if (!c || !Array.isArray(c.files)) {
+                issues.push(`chats[${i}].files must be a list`)
+                return
+            }
+            c.files.forEach((f: any, j: number) => {
+                if (!f || typeof f.name !== 'string' || typeof f.content !== 'string') {
+                    issues.push(`chats[${i}].files[${j}] needs a name and content`)
+                }
+            })
+        })
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid bundle ${source}:\n  - ${issues.join('\n  - ')}`)
+    }
+    return data as ProjectBundle
+}
+
+// First of "Name", "Name (2)", "Name (3)", ... not in use; names compare case-insensitively
+export function uniqueProjectName(name: string, taken: string[]): string {
+    const used = new Set(taken.map((n) => n.toLowerCase()))
+    if (!used.has(name.toLowerCase())) return name
+    for (let i = 2; ; i++) {
+        const candidate = `${name} (${i})`
+        if (!used.has(candidate.toLowerCase())) return candidate
+    }
+}
+
+// Snapshot a project: metadata, env var keys (values on request) and the latest files of each chat
+export async function exportProjectBundle(v0: V0Client, projectId: string, options: BundleExportOptions = {}): Promise<ProjectBundle> {
+    const progress = options.onProgress || (() => { })
+    progress('Fetching project...')
+    const project = await v0.projects.getById({ projectId })
+
+    progress('Fetching environment variables...')
+    const envRes = await v0.projects.findEnvVars({ projectId, decrypted: options.includeValues ? 'true' : undefined })
+    const vars: BundleEnvVar[] = envRes.data.map((v) => {
+        if (!options.includeValues) return { key: v.key }
+        return v.decrypted ? { key: v.key, value: v.value } : { key: v.key, encrypted: true }
+    })
+
+    const chats: BundleChat[] = []
+    for (const [idx, chat] of project.chats.entries()) {
+        progress(`Fetching chat ${idx + 1}/${project.chats.length} (${chat.name || chat.id})...`)
+        const versionId = chat.latestVersion?.id
+        const version = versionId ? await v0.chats.getVersion({ chatId: chat.id, versionId }) : undefined
+        chats.push({
+            id: chat.id,
+            ...(chat.name ? { name: chat.name } : {}),
+            privacy: chat.privacy,
+            ...(versionId ? { versionId } : {}),
+            files: (version?.files || []).map((f) => ({ name: f.name, content: f.content, ...(f.locked ? { locked: true } : {}) })),
+        })
+    }
+
+    return {
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        project: {
+            id: project.id,
+            name: project.name,
+            ...(project.description ? { description: project.description } : {}),
+            ...(project.instructions ? { instructions: project.instructions } : {}),
+            privacy: project.privacy,
+            ...(project.vercelProjectId ? { vercelProjectId: project.vercelProjectId } : {}),
+        },
+        env: { valuesIncluded: !!options.includeValues, vars },
+        chats,
+    }
+}
+
+// Recreate a bundle as a new project. Only a name conflict (with onConflict 'fail') or a
+// failed project create throws; env and chat failures are reported as steps and the rest continues.
+// The Vercel project link is not restored, since a Vercel project backs a single v0 project.
+export async function importProjectBundle(v0: V0Client, bundle: ProjectBundle, options: BundleImportOptions = {}): Promise<BundleImportResult> {
+    const steps: ImportStep[] = []
+    const record = (step: ImportStep) => {
+        steps.push(step)
+        options.onStep?.(step)
+    }
+
+    const wanted = options.name || bundle.project.name
+    const existing = (await v0.projects.find()).data.map((p) => p.name)
+    let name = wanted
+    if (existing.some((n) => n.toLowerCase() === wanted.toLowerCase())) {
+        if (options.onConflict === 'fail') {
+            throw new Error(`A project named "${wanted}" already exists. Use --name or --on-conflict rename`)
+        }
+        name = uniqueProjectName(wanted, existing)
+    }
+
+    const project = await v0.projects.create({
+        name,
+        description: bundle.project.description,
+        instructions: bundle.project.instructions,
+        privacy: bundle.project.privacy,
+    })
+    record({ resource: 'project', name, result: 'created', id: project.id, detail: name !== wanted ? `renamed from "${wanted}"` : undefined })
+
+    const withValues = bundle.env.vars.filter((v): v is BundleEnvVar & { value: string } => v.value !== undefined)
+    for (const v of bundle.env.vars.filter((v) => v.value === undefined)) {
+        record({ resource: 'env', name: v.key, result: 'skipped', detail: v.encrypted ? 'value was encrypted at export' : 'no value in bundle' })
+    }
+    if (withValues.length > 0) {
+        try {
+            await v0.projects.createEnvVars({ projectId: project.id, environmentVariables: withValues.map((v) => ({ key: v.key, value: v.value })) })
+            withValues.forEach((v) => record({ resource: 'env', name: v.key, result: 'created' }))
+        } catch (err) {
+            // The error can echo the values that were just sent
+            const detail = err instanceof Error ? redactText(err.message) : 'Unknown error'
+            withValues.forEach((v) => record({ resource: 'env', name: v.key, result: 'failed', detail }))
+        }
+    }
+
+    for (const chat of bundle.chats) {
+        const label = chat.name || chat.id
+        if (chat.files.length === 0) {
+            record({ resource: 'chat', name: label, result: 'skipped', detail: 'no files to import' })
+            continue
+        }
+        try {
+            const created = await v0.chats.init({
+                type: 'files',
+                projectId: project.id,
+                ...(chat.name ? { name: chat.name } : {}),
+                chatPrivacy: chat.privacy,
+                files: chat.files.map((f) => ({ name: f.name, content: f.content, ...(f.locked ? { locked: true } : {}) })),
+            })
+            record({ resource: 'chat', name: label, result: 'created', id: created.id, detail: `${chat.files.length} files` })
+        } catch (err) {
+            record({ resource: 'chat', name: label, result: 'failed', detail: err instanceof Error ? redactText(err.message) : 'Unknown error' })
+        }
+    }
+
+    return { project: { id: project.id, name, webUrl: project.webUrl }, steps }
+}
@@ -1,6 +1,8 @@
 import Conf from 'conf'
+import { dirname } from 'path'
 import chalk from 'chalk'
 import inquirer from 'inquirer'
+import { maskValue } from './output.js'
 
 const config = new Conf({
     projectName: 'v0-cli',
@@ -21,6 +23,11 @@ const config = new Conf({
             type: 'string',
             enum: ['json', 'table', 'yaml'],
             default: 'table'
+        },
+        checks: {
+            type: 'array',
+            items: { type: 'string' },
+            default: []
         }
     }
 })
@@ -47,6 +54,16 @@ export function setConfig(key: keyof CliConfig, value: string): void {
     config.set(key, value)
 }
 
+// Smoke check specs (PATH[=STATUS][~TEXT]) run after a deployment goes live
+export function getChecks(): string[] {
+    const checks = config.get('checks')
+    return Array.isArray(checks) ? checks.filter((c): c is string => typeof c === 'string') : []
+}
+
+export function setChecks(checks: string[]): void {
+    config.set('checks', checks)
+}
+
 export async function ensureApiKey(preferredApiKey?: string): Promise<string> {
     // Priority: explicit CLI option -> env (V0_API_KEY) -> stored config -> prompt
     let apiKey = preferredApiKey || process.env.V0_API_KEY || getConfig().apiKey
@@ -77,6 +94,11 @@ export async function ensureApiKey(preferredApiKey?: string): Promise<string> {
     return apiKey
 }
 
+// Directory holding the config file; other local CLI state lives next to it
+export function getConfigDir(): string {
+    return dirname(config.path)
+}
+
 export function clearConfig(): void {
     config.clear()
 }
@@ -84,10 +106,12 @@ export function clearConfig(): void {
 export function showConfig(): void {
     const currentConfig = getConfig()
     console.log(chalk.blue('Current Configuration:'))
-    console.log(`API Key: ${currentConfig.apiKey ? '***' + currentConfig.apiKey.slice(-4) : 'Not set'}`)
+    console.log(`API Key: ${currentConfig.apiKey ? maskValue(currentConfig.apiKey) : 'Not set'}`)
     console.log(`Default Project: ${currentConfig.defaultProject || 'Not set'}`)
     console.log(`Base URL: ${currentConfig.baseUrl || 'Default (https://api.v0.dev/v1)'}`)
     console.log(`Output Format: ${currentConfig.outputFormat}`)
+    const checks = getChecks()
+    console.log(`Smoke Checks: ${checks.length > 0 ? checks.join(', ') : 'Not set'}`)
 }
 
 export function resolveBaseUrl(preferredBaseUrl?: string): string | undefined {
@@ -0,0 +1,129 @@
+import { createClient } from 'v0-sdk'
+import { DEFAULT_CONCURRENCY, cursorPage, mapWithConcurrency, paginate, withRateLimitRetry } from './paginate.js'
+
+type V0Client = ReturnType<typeof createClient>
+type VersionSummary = Awaited<ReturnType<V0Client['chats']['findVersions']>>['data'][number]
+type Deployment = Awaited<ReturnType<V0Client['deployments']['find']>>['data'][number]
+
+export interface DeployedVersion {
+    version: VersionSummary
+    deployments: Deployment[]
+}
+
+export interface RollbackTarget {
+    // Version holding the live deployment
+    current?: DeployedVersion
+    // The deployed version before it
+    previous?: DeployedVersion
+    // The ledger's live deployment was not found, so neither version is known
+    staleLedger?: boolean
+}
+
+// Deployments carry no timestamps, so walk the chat's versions (newest first) and
+// look up the deployments of each one in the project. Stops at versions created before `since`,
+// so `since` is about version age, not about when a deployment was made.
+export async function* deployedVersions(v0: V0Client, projectId: string, chatId: string, since?: Date): AsyncGenerator<DeployedVersion> {
+    for await (const version of paginate((cursor) => v0.chats.findVersions({ chatId, cursor }).then(cursorPage))) {
+        if (since && new Date(version.createdAt) < since) return
+        const response = await withRateLimitRetry(() => v0.deployments.find({ projectId, chatId, versionId: version.id }))
+        if (response.data.length > 0) yield { version, deployments: response.data }
+    }
+}
+
+// Version order alone cannot tell what is live: a rollback redeploys an older version.
+// liveDeploymentId (the chat's last deployment in the ledger) picks the current version;
+// without it the newest deployed version is current. "Previous" is the next older deployed
+// version, not the deployment before it in time. When liveDeploymentId no longer exists,
+// someone deployed outside the CLI and the result is staleLedger instead of a guess.
+export async function findRollbackTarget(v0: V0Client, projectId: string, chatId: string, liveDeploymentId?: string): Promise<RollbackTarget> {
+    let current: DeployedVersion | undefined
+    for await (const deployed of deployedVersions(v0, projectId, chatId)) {
+        if (current) return { current, previous: deployed }
+        if (!liveDeploymentId || deployed.deployments.some((d) => d.id === liveDeploymentId)) current = deployed
+    }
+    if (liveDeploymentId && !current) return { staleLedger: true }
+    return { current }
+}
+
+export interface HistoryEntry {
+    // When the deployed version was created; the API does not timestamp deployments
+    time: string
+    projectId: string
+    projectName: string
+    chatId: string
+    chatName: string
+    versionId: string
+    deploymentId: string
+    webUrl: string
+    inspectorUrl: string
+}
+
+export type HistorySortField = 'time' | 'project' | 'chat' | 'version'
+
+export const HISTORY_SORT_FIELDS: HistorySortField[] = ['time', 'project', 'chat', 'version']
+
+export interface HistoryOptions {
+    // Project ID or part of its name
+    project?: string
+    since?: Date
+    concurrency?: number
+    onProgress?: (done: number, total: number) => void
+}
+
+const DURATION = /^(\d+)\s*([mhdw])$/i
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }
+
+// Accept a relative duration (30m, 24h, 7d, 2w) or anything Date can parse
+export function parseSince(value: string, now = new Date()): Date {
+    const match = DURATION.exec(value.trim())
+    if (match) return new Date(now.getTime() - parseInt(match[1], 10) * UNIT_MS[match[2].toLowerCase()])
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid --since value "${value}". Use a duration like 7d, 24h or 30m, or a date`)
+    }
+    return date
+}
+
+// Walk projects -> chats -> versions and collect every deployment found
+export async function collectDeploymentHistory(v0: V0Client, options: HistoryOptions = {}): Promise<HistoryEntry[]> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+    const wanted = options.project?.toLowerCase()
+    const projects = (await withRateLimitRetry(() => v0.projects.find())).data
+        .filter((p) => !wanted || p.id === options.project || p.name.toLowerCase().includes(wanted))
+    const details = await mapWithConcurrency(projects, concurrency, (p) => withRateLimitRetry(() => v0.projects.getById({ projectId: p.id })))
+
+    // Only Vercel-linked projects can have deployments
+    const chats = details
+        .filter((project) => project.vercelProjectId)
+        .flatMap((project) => project.chats.map((chat) => ({ project, chat })))
+
+    let done = 0
+    const perChat = await mapWithConcurrency(chats, concurrency, async ({ project, chat }) => {
+        const entries: HistoryEntry[] = []
+        for await (const { version, deployments } of deployedVersions(v0, project.id, chat.id, options.since)) {
+            for (const deployment of deployments) {
+                entries.push({
+                    time: version.createdAt,
+                    projectId: project.id,
+                    projectName: project.name,
+                    chatId: chat.id,
+                    chatName: chat.name || 'Untitled',
+                    versionId: version.id,
+                    deploymentId: deployment.id,
+                    webUrl: deployment.webUrl,
+                    inspectorUrl: deployment.inspectorUrl,
+                })
+            }
+        }
+        options.onProgress?.(++done, chats.length)
+        return entries
+    })
+    return perChat.flat()
+}
+
+// Newest first; other fields sort alphabetically with newest first as the tie-breaker
+export function sortHistory(entries: HistoryEntry[], field: HistorySortField = 'time'): HistoryEntry[] {
+    const key = (e: HistoryEntry) => field === 'project' ? e.projectName : field === 'chat' ? e.chatName : e.versionId
+    const byTime = (a: HistoryEntry, b: HistoryEntry) => new Date(b.time).getTime() - new Date(a.time).getTime()
+    return [...entries].sort((a, b) => field === 'time' ? byTime(a, b) : key(a).localeCompare(key(b)) || byTime(a, b))
+}
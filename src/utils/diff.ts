@@ -0,0 +1,241 @@
+import chalk from 'chalk'
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified'
+
+export interface Hunk {
+    oldStart: number
+    oldLines: number
+    newStart: number
+    newLines: number
+    // Each line is prefixed with ' ', '-' or '+' like in a unified diff
+    lines: string[]
+}
+
+export interface FilePatch {
+    name: string
+    status: FileChangeStatus
+    additions: number
+    deletions: number
+    hunks: Hunk[]
+}
+
+export interface VersionPatch {
+    from: string
+    to: string
+    files: FilePatch[]
+}
+
+interface Edit {
+    op: ' ' | '-' | '+'
+    line: string
+}
+
+const CONTEXT_LINES = 3
+
+function splitLines(content: string): string[] {
+    if (content === '') return []
+    const lines = content.split('\n')
+    if (lines[lines.length - 1] === '') lines.pop()
+    return lines
+}
+
+// Changed regions longer than this (old plus new lines) are shown as one whole replace
+export const MAX_DIFF_LINES = 20000
+
+function replaceEdits(a: string[], b: string[]): Edit[] {
+    return [
+        ...a.map((line): Edit => ({ op: '-', line })),
+        ...b.map((line): Edit => ({ op: '+', line })),
+    ]
+}
+
+// Myers' middle snake: a point on an optimal edit path that splits it into two shorter
+// paths. Only the two frontier vectors are kept, so memory stays linear.
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): [number, number] {
+    const n = aHi - aLo
+    const m = bHi - bLo
+    const delta = n - m
+    const odd = (delta & 1) !== 0
+    const max = Math.ceil((n + m) / 2)
+    const offset = max + 1
+    const forward = new Int32Array(2 * max + 3)
+    const backward = new Int32Array(2 * max + 3)
+
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1
+            let y = x - k
+            const startX = x
+            const startY = y
+            while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                x++
+                y++
+            }
+            forward[offset + k] = x
+            // Backward diagonal delta - k, reached with d - 1 edits
+            const back = delta - k
+            if (odd && back >= -(d - 1) && back <= d - 1 && x + backward[offset + back] >= n) {
+                return [aLo + startX, bLo + startY]
+            }
+        }
+        // Backward search runs over the reversed sequences
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1
+            let y = x - k
+            const startX = x
+            const startY = y
+            while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+                x++
+                y++
+            }
+            backward[offset + k] = x
+            const fwd = delta - k
+            if (!odd && fwd >= -d && fwd <= d && x + forward[offset + fwd] >= n) {
+                return [aHi - startX, bHi - startY]
+            }
+        }
+    }
+    // Unreachable: the searches always meet within ceil((n + m) / 2) steps
+    return [aHi, bHi]
+}
+
+function diffRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, out: Edit[]): void {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+        out.push({ op: ' ', line: a[aLo] })
+        aLo++
+        bLo++
+    }
+    let suffix = 0
+    while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) suffix++
+
+    if (aLo === aHi - suffix || bLo === bHi - suffix) {
+        out.push(...replaceEdits(a.slice(aLo, aHi - suffix), b.slice(bLo, bHi - suffix)))
+    } else {
+        const [x, y] = middleSnake(a, aLo, aHi - suffix, b, bLo, bHi - suffix)
+        diffRange(a, aLo, x, b, bLo, y, out)
+        diffRange(a, x, aHi - suffix, b, y, bHi - suffix, out)
+    }
+
+    for (let i = aHi - suffix; i < aHi; i++) out.push({ op: ' ', line: a[i] })
+}
+
+// Myers O(ND) diff over lines in linear space, after trimming the common prefix and suffix
+export function diffLines(a: string[], b: string[]): Edit[] {
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) start++
+    let endA = a.length
+    let endB = b.length
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--
+        endB--
+    }
+
+    const head: Edit[] = a.slice(0, start).map((line) => ({ op: ' ', line }))
+    const tail: Edit[] = a.slice(endA).map((line) => ({ op: ' ', line }))
+    const midA = a.slice(start, endA)
+    const midB = b.slice(start, endB)
+
+    if (midA.length === 0 || midB.length === 0 || midA.length + midB.length > MAX_DIFF_LINES) {
+        return [...head, ...replaceEdits(midA, midB), ...tail]
+    }
+
+    const middle: Edit[] = []
+    diffRange(midA, 0, midA.length, midB, 0, midB.length, middle)
+    return [...head, ...middle, ...tail]
+}
+
+function buildHunks(edits: Edit[]): Hunk[] {
+    // Old/new line numbers at each edit position
+    const oldNumbers: number[] = []
+    const newNumbers: number[] = []
+    let oldLine = 1
+    let newLine = 1
+    for (const edit of edits) {
+        oldNumbers.push(oldLine)
+        newNumbers.push(newLine)
+        if (edit.op !== '+') oldLine++
+        if (edit.op !== '-') newLine++
+    }
+
+    const changes = edits.map((e, idx) => (e.op === ' ' ? -1 : idx)).filter((idx) => idx !== -1)
+    const hunks: Hunk[] = []
+    let i = 0
+    while (i < changes.length) {
+        // Changes separated by at most twice the context share a hunk
+        let j = i
+        while (j + 1 < changes.length && changes[j + 1] - changes[j] - 1 <= 2 * CONTEXT_LINES) j++
+
+        const start = Math.max(0, changes[i] - CONTEXT_LINES)
+        const end = Math.min(edits.length - 1, changes[j] + CONTEXT_LINES)
+        const slice = edits.slice(start, end + 1)
+        const oldLines = slice.filter((e) => e.op !== '+').length
+        const newLines = slice.filter((e) => e.op !== '-').length
+        hunks.push({
+            oldStart: oldLines === 0 ? oldNumbers[start] - 1 : oldNumbers[start],
+            oldLines,
+            newStart: newLines === 0 ? newNumbers[start] - 1 : newNumbers[start],
+            newLines,
+            lines: slice.map((e) => e.op + e.line),
+        })
+        i = j + 1
+    }
+
+    return hunks
+}
+
+export function diffFile(name: string, before: string | undefined, after: string | undefined): FilePatch | undefined {
+    if (before === after) return undefined
+    const edits = diffLines(splitLines(before ?? ''), splitLines(after ?? ''))
+    const status: FileChangeStatus = before === undefined ? 'added' : after === undefined ? 'removed' : 'modified'
+    return {
+        name,
+        status,
+        additions: edits.filter((e) => e.op === '+').length,
+        deletions: edits.filter((e) => e.op === '-').length,
+        hunks: buildHunks(edits),
+    }
+}
+
+export function diffVersions(
+    from: { id: string; files: { name: string; content: string }[] },
+    to: { id: string; files: { name: string; content: string }[] },
+): VersionPatch {
+    const before = new Map(from.files.map((f) => [f.name, f.content]))
+    const after = new Map(to.files.map((f) => [f.name, f.content]))
+    const names = Array.from(new Set([...before.keys(), ...after.keys()])).sort()
+    const files = names
+        .map((name) => diffFile(name, before.get(name), after.get(name)))
+        .filter(Boolean) as FilePatch[]
+    return { from: from.id, to: to.id, files }
+}
+
+export function printUnifiedDiff(patch: VersionPatch): void {
+    for (const file of patch.files) {
+        console.log(chalk.blue(`--- ${file.status === 'added' ? '/dev/null' : `a/${file.name}`}`))
+        console.log(chalk.blue(`+++ ${file.status === 'removed' ? '/dev/null' : `b/${file.name}`}`))
+        for (const hunk of file.hunks) {
+            console.log(chalk.gray(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`))
+            for (const line of hunk.lines) {
+                if (line.startsWith('+')) console.log(chalk.green(line))
+                else if (line.startsWith('-')) console.log(chalk.red(line))
+                else console.log(line)
+            }
+        }
+    }
+}
+
+export function printDiffStat(patch: VersionPatch): void {
+    const width = Math.max(0, ...patch.files.map((f) => f.name.length))
+    for (const file of patch.files) {
+        const changes = file.additions + file.deletions
+        const bar = chalk.green('+'.repeat(Math.min(file.additions, 40))) + chalk.red('-'.repeat(Math.min(file.deletions, 40)))
+        console.log(` ${file.name.padEnd(width)} | ${String(changes).padStart(4)} ${bar}`)
+    }
+    const additions = patch.files.reduce((sum, f) => sum + f.additions, 0)
+    const deletions = patch.files.reduce((sum, f) => sum + f.deletions, 0)
+    console.log(` ${patch.files.length} files changed, ${additions} insertions(+), ${deletions} deletions(-)`)
+}
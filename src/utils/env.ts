@@ -0,0 +1,251 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { createClient } from 'v0-sdk'
+import { maskValue } from './output.js'
+
+type V0Client = ReturnType<typeof createClient>
+export type EnvVar = Awaited<ReturnType<V0Client['projects']['findEnvVars']>>['data'][number]
+
+export interface EnvPair {
+    key: string
+    value: string
+}
+
+export interface EnvChanges {
+    creates: EnvPair[]
+    updates: (EnvPair & { id: string })[]
+    deletes: { id: string; key: string }[]
+    skipped: { key: string; reason: string }[]
+}
+
+export type EnvChangeResult = 'added' | 'updated' | 'deleted' | 'skipped'
+
+// Values are undefined when the API would not decrypt them
+export interface EnvSource {
+    label: string
+    vars: Record<string, string | undefined>
+    // Only set for projects
+    projectId?: string
+    records?: EnvVar[]
+}
+
+export type EnvDiffStatus = 'same' | 'changed' | 'unknown' | 'only-left' | 'only-right'
+
+export interface EnvDiffEntry {
+    key: string
+    status: EnvDiffStatus
+    left?: string
+    right?: string
+}
+
+const ENV_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Values made only of these characters are written without quotes
+const PLAIN_VALUE = /^[\w\-.,:/@+=%?&]*$/
+
+// Parse repeated --var flags; a pair without "=" or without a key is an error rather than dropped
+export function parseEnvPairs(pairs: string[] = [], flag = '--var', usage = 'KEY=VALUE'): EnvPair[] {
+    return pairs.map((pair) => {
+        const idx = pair.indexOf('=')
+        if (idx <= 0) {
+            throw new Error(`Invalid ${flag} "${pair}". Use ${usage}`)
+        }
+        return { key: pair.slice(0, idx), value: pair.slice(idx + 1) }
+    })
+}
+
+// Index of the quote closing a quoted value; backslash escapes only apply inside double quotes
+function closingQuote(text: string, quote: string): number {
+    for (let i = 0; i < text.length; i++) {
+        if (quote === '"' && text[i] === '\\') {
+            i++
+        } else if (text[i] === quote) {
+            return i
+        }
+    }
+    return -1
+}
+
+function unescapeDoubleQuoted(value: string): string {
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t' }
+    return value.replace(/\\([nrt"\\])/g, (_match, c: string) => escapes[c] ?? c)
+}
+
+// dotenv syntax: comments, blank lines, `export` prefixes, single/double/backtick quotes
+// (which may span lines) and inline comments after unquoted values. Later keys win.
+export function parseDotenv(text: string, source = '.env'): Record<string, string> {
+    const vars: Record<string, string> = {}
+    const issues: string[] = []
+    const lines = text.replace(/\r\n?/g, '\n').split('\n')
+
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber = i + 1
+        const line = lines[i].trimStart()
+        if (!line || line.startsWith('#')) continue
+
+        const match = /^(?:export\s+)?([^=\s]+)\s*=\s*(.*)$/.exec(line)
+        if (!match) {
+            issues.push(`line ${lineNumber}: expected KEY=VALUE`)
+            continue
+        }
+        const [, key, rest] = match
+        if (!ENV_KEY.test(key)) {
+            issues.push(`line ${lineNumber}: invalid key "${key}" (use letters, digits and "_", not starting with a digit)`)
+            continue
+        }
+
+        const quote = rest[0]
+        if (quote !== '"' && quote !== "'" && quote !== '`') {
+            vars[key] = rest.replace(/\s+#.*$/, '').trim()
+            continue
+        }
+
+        let body = rest.slice(1)
+        let end = closingQuote(body, quote)
+        while (end === -1 && i + 1 < lines.length) {
+            body += '\n' + lines[++i]
+            end = closingQuote(body, quote)
+        }
+        if (end === -1) {
+            issues.push(`line ${lineNumber}: ${key} has no closing ${quote}`)
+            break
+        }
+        const trailing = body.slice(end + 1).trim()
+        if (trailing && !trailing.startsWith('#')) {
+            issues.push(`line ${lineNumber}: unexpected text after the closing ${quote} of ${key}`)
+            continue
+        }
+        const value = body.slice(0, end)
+        vars[key] = quote === '"' ? unescapeDoubleQuoted(value) : value
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid ${source}:\n  - ${issues.join('\n  - ')}`)
+    }
+    return vars
+}
+
+function dotenvValue(value: string): string {
+    if (PLAIN_VALUE.test(value)) return value
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+    return `"${escaped}"`
+}
+
+// One KEY=value line per pair, quoted and escaped so parseDotenv reads it back unchanged
+export function formatDotenv(pairs: EnvPair[]): string {
+    return pairs.map((p) => `${p.key}=${dotenvValue(p.value)}\n`).join('')
+}
+
+// Work out which keys to create, which to update (only with upsert) and which to leave alone.
+// Values of existing variables can only be compared when they were fetched decrypted.
+export function planEnvChanges(existing: EnvVar[], wanted: Record<string, string>, upsert = false): EnvChanges {
+    const byKey = new Map(existing.map((v) => [v.key, v]))
+    const changes: EnvChanges = { creates: [], updates: [], deletes: [], skipped: [] }
+    for (const [key, value] of Object.entries(wanted)) {
+        const current = byKey.get(key)
+        if (!current) {
+            changes.creates.push({ key, value })
+        } else if (current.decrypted && current.value === value) {
+            changes.skipped.push({ key, reason: 'unchanged' })
+        } else if (!upsert) {
+            changes.skipped.push({ key, reason: 'already set (use --upsert to overwrite)' })
+        } else {
+            changes.updates.push({ id: current.id, key, value })
+        }
+    }
+    return changes
+}
+
+export function envChangeRows(changes: EnvChanges): { key: string; result: EnvChangeResult; detail: string }[] {
+    return [
+        ...changes.creates.map((c) => ({ key: c.key, result: 'added' as const, detail: '' })),
+        ...changes.updates.map((u) => ({ key: u.key, result: 'updated' as const, detail: '' })),
+        ...changes.deletes.map((d) => ({ key: d.key, result: 'deleted' as const, detail: '' })),
+        ...changes.skipped.map((s) => ({ key: s.key, result: 'skipped' as const, detail: s.reason })),
+    ]
+}
+
+export function hasEnvKey(source: EnvSource, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(source.vars, key)
+}
+
+// Converge a project on the source: create and update every key, and with prune delete
+// keys the source does not have. Keys whose source value could not be decrypted are skipped.
+export function planEnvSync(target: EnvVar[], source: EnvSource, prune = false): EnvChanges {
+    const wanted: Record<string, string> = {}
+    const unreadable: string[] = []
+    for (const [key, value] of Object.entries(source.vars)) {
+        if (value === undefined) unreadable.push(key)
+        else wanted[key] = value
+    }
+    const changes = planEnvChanges(target, wanted, true)
+    changes.skipped.push(...unreadable.map((key) => ({ key, reason: 'source value is encrypted' })))
+    if (prune) {
+        changes.deletes = target.filter((v) => !hasEnvKey(source, v.key)).map((v) => ({ id: v.id, key: v.key }))
+    }
+    return changes
+}
+
+// Map keys to the IDs the update/delete endpoints need
+export function resolveEnvKeys(existing: EnvVar[], keys: string[]): { found: { id: string; key: string }[]; missing: string[] } {
+    const byKey = new Map(existing.map((v) => [v.key, v]))
+    const found: { id: string; key: string }[] = []
+    const missing: string[] = []
+    for (const key of keys) {
+        const current = byKey.get(key)
+        if (current) found.push({ id: current.id, key })
+        else missing.push(key)
+    }
+    return { found, missing }
+}
+
+export function diffEnv(left: EnvSource, right: EnvSource): EnvDiffEntry[] {
+    const keys = Array.from(new Set([...Object.keys(left.vars), ...Object.keys(right.vars)])).sort()
+    return keys.map((key) => {
+        const inLeft = hasEnvKey(left, key)
+        const inRight = hasEnvKey(right, key)
+        const l = left.vars[key]
+        const r = right.vars[key]
+        let status: EnvDiffStatus
+        if (!inRight) status = 'only-left'
+        else if (!inLeft) status = 'only-right'
+        else if (l === undefined || r === undefined) status = 'unknown'
+        else status = l === r ? 'same' : 'changed'
+        return { key, status, ...(l !== undefined ? { left: l } : {}), ...(r !== undefined ? { right: r } : {}) }
+    })
+}
+
+// Mask a variable's value unless it should be shown in full
+export function displayEnvVar<T extends { value: string }>(envVar: T, reveal = false): T {
+    return reveal ? envVar : { ...envVar, value: maskValue(envVar.value) }
+}
+
+export function isEnvFile(ref: string): boolean {
+    return existsSync(ref) && statSync(ref).isFile()
+}
+
+// Project IDs never contain a path separator or ".env"
+function looksLikePath(ref: string): boolean {
+    return /[\\/]/.test(ref) || /\.env/i.test(ref)
+}
+
+// A diff/sync side is a .env file when one exists at that path, otherwise a project ID.
+// A ref that looks like a path but is not a file is a mistyped path, not a project ID.
+export async function readEnvSource(v0: V0Client, ref: string): Promise<EnvSource> {
+    if (isEnvFile(ref)) {
+        return { label: ref, vars: parseDotenv(readFileSync(ref, 'utf8'), ref) }
+    }
+    if (looksLikePath(ref)) {
+        throw new Error(`File not found: ${ref}`)
+    }
+    const res = await v0.projects.findEnvVars({ projectId: ref, decrypted: 'true' })
+    return {
+        label: ref,
+        vars: Object.fromEntries(res.data.map((v) => [v.key, v.decrypted ? v.value : undefined])),
+        projectId: ref,
+        records: res.data,
+    }
+}
@@ -0,0 +1,251 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import { dirname, join, posix, resolve, sep } from 'path'
+
+export interface VersionFile {
+    name: string
+    content: string
+    locked?: boolean
+}
+
+export type PullStatus = 'created' | 'changed' | 'unchanged' | 'conflict'
+
+export interface PullEntry {
+    name: string
+    path: string
+    status: PullStatus
+}
+
+export interface PullManifest {
+    chatId: string
+    versionId: string
+    pulledAt: string
+    // File name -> sha256 of the content written by the last pull
+    files: Record<string, string>
+}
+
+export const PULL_MANIFEST = '.v0-pull.json'
+
+export function hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex')
+}
+
+// Resolve a version file name below root, rejecting names that would escape it
+export function resolveInside(root: string, name: string): string {
+    const base = resolve(root)
+    const target = resolve(base, name.replace(/^[/\\]+/, ''))
+    if (target === base || !target.startsWith(base + sep)) {
+        throw new Error(`Refusing to write outside of ${root}: ${name}`)
+    }
+    return target
+}
+
+export function readPullManifest(dir: string): PullManifest | undefined {
+    const path = join(dir, PULL_MANIFEST)
+    if (!existsSync(path)) return undefined
+    try {
+        return JSON.parse(readFileSync(path, 'utf8')) as PullManifest
+    } catch {
+        return undefined
+    }
+}
+
+export function writePullManifest(dir: string, manifest: PullManifest): void {
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, PULL_MANIFEST), JSON.stringify(manifest, null, 2) + '\n')
+}
+
+// Compare remote files with the local tree. A differing local file only counts as
+// "changed" (safe to overwrite) when it still matches what the last pull wrote.
+export function planPull(dir: string, files: VersionFile[], manifest?: PullManifest): PullEntry[] {
+    return files.map((file) => {
+        const path = resolveInside(dir, file.name)
+        if (!existsSync(path)) return { name: file.name, path, status: 'created' }
+
+        const local = readFileSync(path, 'utf8')
+        if (local === file.content) return { name: file.name, path, status: 'unchanged' }
+
+        const recorded = manifest?.files[file.name]
+        if (recorded && recorded === hashContent(local)) return { name: file.name, path, status: 'changed' }
+
+        return { name: file.name, path, status: 'conflict' }
+    })
+}
+
+export function applyPull(files: VersionFile[], plan: PullEntry[], force = false): void {
+    plan.forEach((entry, idx) => {
+        if (entry.status === 'unchanged') return
+        if (entry.status === 'conflict' && !force) return
+        mkdirSync(dirname(entry.path), { recursive: true })
+        writeFileSync(entry.path, files[idx].content)
+    })
+}
+
+export interface PullResult {
+    plan: PullEntry[]
+    conflicts: PullEntry[]
+    written: boolean
+}
+
+// Plan, write and record a version in dir. Nothing is written when local edits would be lost and force is off.
+export function writeVersionFiles(dir: string, chatId: string, version: { id: string; files: VersionFile[] }, force = false): PullResult {
+    const plan = planPull(dir, version.files, readPullManifest(dir))
+    const conflicts = plan.filter((entry) => entry.status === 'conflict')
+    if (conflicts.length > 0 && !force) return { plan, conflicts, written: false }
+
+    applyPull(version.files, plan, force)
+    writePullManifest(dir, {
+        chatId,
+        versionId: version.id,
+        pulledAt: new Date().toISOString(),
+        files: Object.fromEntries(version.files.map((f) => [f.name, hashContent(f.content)])),
+    })
+    return { plan, conflicts, written: true }
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 512 * 1024
+
+// Always skipped when collecting a local tree, on top of .gitignore/.v0ignore
+const DEFAULT_IGNORES = ['.git/', 'node_modules/', '.DS_Store', '.v0ignore', PULL_MANIFEST]
+
+const IGNORE_FILES = ['.gitignore', '.v0ignore']
+
+export interface IgnoreRule {
+    base: string
+    regex: RegExp
+    negate: boolean
+    dirOnly: boolean
+    anchored: boolean
+}
+
+export interface LocalFile {
+    name: string
+    content: string
+    size: number
+}
+
+export interface SkippedFile {
+    name: string
+    reason: string
+}
+
+export interface CollectOptions {
+    maxFileSize?: number
+}
+
+export interface CollectResult {
+    files: LocalFile[]
+    skipped: SkippedFile[]
+    totalBytes: number
+}
+
+function globToRegExp(glob: string): RegExp {
+    let re = ''
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i]
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    // "**/" matches zero or more directories
+                    re += '(?:.*/)?'
+                    i += 2
+                } else {
+                    re += '.*'
+                    i++
+                }
+            } else {
+                re += '[^/]*'
+            }
+        } else if (c === '?') {
+            re += '[^/]'
+        } else {
+            re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+    return new RegExp('^' + re + '$')
+}
+
+export function parseIgnore(text: string, base = ''): IgnoreRule[] {
+    const rules: IgnoreRule[] = []
+    for (const raw of text.split(/\r?\n/)) {
+        let line = raw.trim()
+        if (!line || line.startsWith('#')) continue
+        const negate = line.startsWith('!')
+        if (negate) line = line.slice(1)
+        const dirOnly = line.endsWith('/')
+        if (dirOnly) line = line.slice(0, -1)
+        const anchored = line.includes('/')
+        line = line.replace(/^\//, '')
+        if (!line) continue
+        rules.push({ base, regex: globToRegExp(line), negate, dirOnly, anchored })
+    }
+    return rules
+}
+
+// gitignore semantics: the last matching rule wins, "!" re-includes
+export function isIgnored(rules: IgnoreRule[], path: string, isDir: boolean): boolean {
+    let ignored = false
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue
+        if (rule.base && !path.startsWith(rule.base + '/')) continue
+        const rel = rule.base ? path.slice(rule.base.length + 1) : path
+        const subject = rule.anchored ? rel : posix.basename(rel)
+        if (rule.regex.test(subject)) ignored = !rule.negate
+    }
+    return ignored
+}
+
+export function isBinary(buf: Buffer): boolean {
+    const len = Math.min(buf.length, 8000)
+    for (let i = 0; i < len; i++) {
+        if (buf[i] === 0) return true
+    }
+    return false
+}
+
+// Walk a directory and return its text files keyed by their relative (posix) path
+export function collectLocalFiles(root: string, options: CollectOptions = {}): CollectResult {
+    const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE
+    if (!existsSync(root) || !statSync(root).isDirectory()) {
+        throw new Error(`Directory not found: ${root}`)
+    }
+
+    const files: LocalFile[] = []
+    const skipped: SkippedFile[] = []
+    let totalBytes = 0
+
+    const walk = (dir: string, rel: string, inherited: IgnoreRule[]) => {
+        const rules = [...inherited]
+        for (const ignoreFile of IGNORE_FILES) {
+            const ignorePath = join(dir, ignoreFile)
+            if (existsSync(ignorePath)) rules.push(...parseIgnore(readFileSync(ignorePath, 'utf8'), rel))
+        }
+
+        const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))
+        for (const entry of entries) {
+            const name = rel ? `${rel}/${entry.name}` : entry.name
+            const full = join(dir, entry.name)
+            if (entry.isDirectory()) {
+                if (!isIgnored(rules, name, true)) walk(full, name, rules)
+                continue
+            }
+            if (!entry.isFile() || isIgnored(rules, name, false)) continue
+
+            const size = statSync(full).size
+            if (size > maxFileSize) {
+                skipped.push({ name, reason: `larger than ${maxFileSize} bytes (${size})` })
+                continue
+            }
+            const buf = readFileSync(full)
+            if (isBinary(buf)) {
+                skipped.push({ name, reason: 'binary file' })
+                continue
+            }
+            files.push({ name, content: buf.toString('utf8'), size })
+            totalBytes += size
+        }
+    }
+
+    walk(root, '', parseIgnore(DEFAULT_IGNORES.join('\n')))
+    return { files, skipped, totalBytes }
+}
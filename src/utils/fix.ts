@@ -0,0 +1,92 @@
+import { createClient } from 'v0-sdk'
+import { DeploymentWaitStatus, WaitOptions, waitFailureMessage, waitForDeployment, waitForVersion } from './wait.js'
+
+type V0Client = ReturnType<typeof createClient>
+type Deployment = Awaited<ReturnType<V0Client['deployments']['create']>>
+type DeploymentErrors = Awaited<ReturnType<V0Client['deployments']['findErrors']>>
+
+export const DEFAULT_FIX_ATTEMPTS = 3
+
+// Build output beyond this is cut from the front; the actual error is usually at the end
+const MAX_ERROR_TEXT = 8000
+
+export interface FixAttempt {
+    // 0 is the deployment the loop started from
+    attempt: number
+    deploymentId: string
+    versionId: string
+    status: DeploymentWaitStatus
+    error?: string
+}
+
+export interface FixOptions {
+    maxAttempts?: number
+    deploymentWait?: WaitOptions
+    versionWait?: WaitOptions
+    onAttempt?: (attempt: FixAttempt) => void
+    // Called for every redeployment the loop creates
+    onDeployment?: (deployment: Deployment) => void
+}
+
+export interface FixResult {
+    status: DeploymentWaitStatus
+    attempts: FixAttempt[]
+    // Why the loop stopped without a live deployment
+    reason?: string
+}
+
+export function formatFixMessage(errors: DeploymentErrors, versionId: string): string {
+    const lines = [`The deployment of version ${versionId} failed to build. Fix the error below without changing unrelated code.`, '']
+    if (errors.errorType) lines.push(`Error type: ${errors.errorType}`)
+    if (errors.error) lines.push(`Error: ${errors.error}`)
+    let details = errors.fullErrorText || errors.formattedError
+    if (details) {
+        if (details.length > MAX_ERROR_TEXT) details = '…' + details.slice(-MAX_ERROR_TEXT)
+        lines.push('', 'Build output:', '```', details.trimEnd(), '```')
+    }
+    return lines.join('\n')
+}
+
+function errorSummary(errors?: DeploymentErrors): string | undefined {
+    const text = errors?.formattedError || errors?.error || errors?.fullErrorText
+    return text ? text.trim().split('\n')[0] : undefined
+}
+
+// Wait for the deployment; while it fails, send its errors to the chat, wait for the
+// new version and redeploy it, up to maxAttempts times
+export async function runFixLoop(v0: V0Client, deploymentId: string, options: FixOptions = {}): Promise<FixResult> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_FIX_ATTEMPTS
+    const attempts: FixAttempt[] = []
+    let deployment = await v0.deployments.getById({ deploymentId })
+
+    for (let attempt = 0; ; attempt++) {
+        const waited = await waitForDeployment(v0, deployment.id, options.deploymentWait)
+        const record: FixAttempt = {
+            attempt,
+            deploymentId: deployment.id,
+            versionId: deployment.versionId,
+            status: waited.status,
+            error: errorSummary(waited.errors),
+        }
+        attempts.push(record)
+        options.onAttempt?.(record)
+
+        if (waited.status === 'ready') return { status: 'ready', attempts }
+        if (waited.status === 'timeout') {
+            return { status: 'timeout', attempts, reason: `Timed out waiting for deployment ${deployment.id}` }
+        }
+        if (attempt >= maxAttempts) {
+            return { status: 'failed', attempts, reason: `Still failing after ${maxAttempts} fix attempt(s)` }
+        }
+
+        const { chatId, projectId } = deployment
+        const before = await v0.chats.getById({ chatId })
+        await v0.chats.sendMessage({ chatId, message: formatFixMessage(waited.errors || {}, deployment.versionId) })
+        const version = await waitForVersion(v0, chatId, { ...options.versionWait, ignoreVersionId: before.latestVersion?.id })
+        if (version.status !== 'completed' || !version.version) {
+            return { status: version.status === 'timeout' ? 'timeout' : 'failed', attempts, reason: waitFailureMessage(version) }
+        }
+        deployment = await v0.deployments.create({ projectId, chatId, versionId: version.version.id })
+        options.onDeployment?.(deployment)
+    }
+}
@@ -0,0 +1,114 @@
+import { execFileSync } from 'child_process'
+import { posix } from 'path'
+import { CollectOptions, CollectResult, DEFAULT_MAX_FILE_SIZE, IgnoreRule, isBinary, isIgnored, LocalFile, parseIgnore, SkippedFile } from './files.js'
+
+export interface GitSnapshot extends CollectResult {
+    commit: string
+}
+
+interface TreeEntry {
+    mode: string
+    type: string
+    object: string
+    size: number
+    path: string
+}
+
+function git(repo: string, args: string[], input?: string): Buffer {
+    try {
+        return execFileSync('git', ['-C', repo, ...args], {
+            input,
+            maxBuffer: 1024 * 1024 * 1024,
+            stdio: ['pipe', 'pipe', 'pipe'],
+        })
+    } catch (err) {
+        const stderr = (err as any)?.stderr?.toString().trim()
+        throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`)
+    }
+}
+
+function listTree(repo: string, commit: string): TreeEntry[] {
+    return git(repo, ['ls-tree', '-r', '-l', '-z', commit])
+        .toString('utf8')
+        .split('\0')
+        .filter(Boolean)
+        .map((line) => {
+            const tab = line.indexOf('\t')
+            const [mode, type, object, size] = line.slice(0, tab).split(/\s+/)
+            return { mode, type, object, size: parseInt(size, 10) || 0, path: line.slice(tab + 1) }
+        })
+}
+
+// Read many blobs with a single `git cat-file --batch`
+function readBlobs(repo: string, objects: string[]): Map<string, Buffer> {
+    const blobs = new Map<string, Buffer>()
+    if (objects.length === 0) return blobs
+    const out = git(repo, ['cat-file', '--batch'], objects.join('\n') + '\n')
+    let pos = 0
+    while (pos < out.length) {
+        const eol = out.indexOf(0x0a, pos)
+        const [object, , size] = out.subarray(pos, eol).toString('utf8').split(' ')
+        const length = parseInt(size, 10)
+        blobs.set(object, out.subarray(eol + 1, eol + 1 + length))
+        pos = eol + 1 + length + 1
+    }
+    return blobs
+}
+
+// A path is ignored when the file or any of its parent directories is
+function isPathIgnored(rules: IgnoreRule[], path: string): boolean {
+    const parts = path.split('/')
+    for (let i = 1; i < parts.length; i++) {
+        if (isIgnored(rules, parts.slice(0, i).join('/'), true)) return true
+    }
+    return isIgnored(rules, path, false)
+}
+
+// Snapshot the text files of a local git repository at a commit, honoring .v0ignore files in that tree
+export function collectGitFiles(repo: string, ref = 'HEAD', options: CollectOptions = {}): GitSnapshot {
+    const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE
+    let commit: string
+    try {
+        commit = git(repo, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).toString('utf8').trim()
+    } catch {
+        throw new Error(`Cannot resolve ${ref} to a commit in ${repo}`)
+    }
+    const entries = listTree(repo, commit)
+
+    const ignoreFiles = entries.filter((e) => posix.basename(e.path) === '.v0ignore')
+    const ignoreBlobs = readBlobs(repo, ignoreFiles.map((e) => e.object))
+    const rules = ignoreFiles.flatMap((e) => {
+        const base = posix.dirname(e.path)
+        return parseIgnore(ignoreBlobs.get(e.object)?.toString('utf8') || '', base === '.' ? '' : base)
+    })
+
+    const skipped: SkippedFile[] = []
+    const wanted: TreeEntry[] = []
+    for (const entry of entries) {
+        if (entry.type !== 'blob' || posix.basename(entry.path) === '.v0ignore') continue
+        if (isPathIgnored(rules, entry.path)) continue
+        if (entry.mode === '120000') {
+            skipped.push({ name: entry.path, reason: 'symbolic link' })
+        } else if (entry.size > maxFileSize) {
+            skipped.push({ name: entry.path, reason: `larger than ${maxFileSize} bytes (${entry.size})` })
+        } else {
+            wanted.push(entry)
+        }
+    }
+
+    const blobs = readBlobs(repo, Array.from(new Set(wanted.map((e) => e.object))))
+    const files: LocalFile[] = []
+    let totalBytes = 0
+    for (const entry of wanted) {
+        const buf = blobs.get(entry.object) || Buffer.alloc(0)
+        if (isBinary(buf)) {
+            skipped.push({ name: entry.path, reason: 'binary file' })
+            continue
+        }
+        files.push({ name: entry.path, content: buf.toString('utf8'), size: entry.size })
+        totalBytes += entry.size
+    }
+    files.sort((a, b) => a.name.localeCompare(b.name))
+
+    return { commit, files, skipped, totalBytes }
+}
@@ -0,0 +1,23 @@
+// Events a webhook can subscribe to
+export type HookEvent =
+    | 'chat.created'
+    | 'chat.updated'
+    | 'chat.deleted'
+    | 'message.created'
+    | 'message.updated'
+    | 'message.deleted'
+    | 'project.created'
+    | 'project.updated'
+    | 'project.deleted'
+
+export const ALL_EVENTS: HookEvent[] = [
+    'chat.created',
+    'chat.updated',
+    'chat.deleted',
+    'message.created',
+    'message.updated',
+    'message.deleted',
+    'project.created',
+    'project.updated',
+    'project.deleted',
+]
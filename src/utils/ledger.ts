@@ -0,0 +1,169 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { execFileSync } from 'child_process'
+import { userInfo } from 'os'
+import { getConfigDir } from './config.js'
+import { warning } from './output.js'
+
+export type LedgerSource = 'create' | 'from-chat' | 'quick' | 'local' | 'rollback' | 'apply' | 'fix' | 'repl'
+
+export interface LedgerEntry {
+    deploymentId: string
+    recordedAt: string
+    source: LedgerSource
+    projectId: string
+    chatId: string
+    versionId: string
+    webUrl: string
+    inspectorUrl: string
+    user: string
+    cwd: string
+    // HEAD of the git repository the command ran in, if any
+    gitCommit?: string
+    gitDirty?: boolean
+    note?: string
+    tags: string[]
+}
+
+export interface LedgerAnnotations {
+    note?: string
+    tags?: string[]
+}
+
+export interface LedgerFilter {
+    // Case-insensitive text matched against ids, URLs, note, tags, user and commit
+    query?: string
+    tag?: string
+    project?: string
+    since?: Date
+}
+
+export const LEDGER_EXPORT_FORMATS = ['json', 'ndjson', 'csv'] as const
+export type LedgerExportFormat = typeof LEDGER_EXPORT_FORMATS[number]
+
+interface DeploymentLike {
+    id: string
+    projectId: string
+    chatId: string
+    versionId: string
+    webUrl: string
+    inspectorUrl: string
+}
+
+// One JSON object per line so concurrent CLI runs only ever append
+export function ledgerPath(): string {
+    return join(getConfigDir(), 'deployments.jsonl')
+}
+
+function currentUser(): string {
+    try {
+        return userInfo().username
+    } catch {
+        return process.env.USER || process.env.USERNAME || 'unknown'
+    }
+}
+
+function gitState(cwd: string): { gitCommit?: string; gitDirty?: boolean } {
+    const git = (args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim()
+    try {
+        return { gitCommit: git(['rev-parse', 'HEAD']), gitDirty: git(['status', '--porcelain']).length > 0 }
+    } catch {
+        return {}
+    }
+}
+
+export function buildLedgerEntry(deployment: DeploymentLike, source: LedgerSource, annotations: LedgerAnnotations = {}, cwd = process.cwd()): LedgerEntry {
+    return {
+        deploymentId: deployment.id,
+        recordedAt: new Date().toISOString(),
+        source,
+        projectId: deployment.projectId,
+        chatId: deployment.chatId,
+        versionId: deployment.versionId,
+        webUrl: deployment.webUrl,
+        inspectorUrl: deployment.inspectorUrl,
+        user: currentUser(),
+        cwd,
+        ...gitState(cwd),
+        ...(annotations.note ? { note: annotations.note } : {}),
+        tags: annotations.tags || [],
+    }
+}
+
+export function recordDeployment(deployment: DeploymentLike, source: LedgerSource, annotations: LedgerAnnotations = {}, path = ledgerPath()): LedgerEntry {
+    const entry = buildLedgerEntry(deployment, source, annotations)
+    mkdirSync(dirname(path), { recursive: true })
+    appendFileSync(path, JSON.stringify(entry) + '\n')
+    return entry
+}
+
+// A failed ledger write only warns; the deployment itself already exists
+export function recordInLedger(deployment: DeploymentLike, source: LedgerSource, annotations: LedgerAnnotations = {}): void {
+    try {
+        recordDeployment(deployment, source, annotations)
+    } catch (err) {
+        warning(`Could not record deployment in the ledger: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+}
+
+// Oldest first; lines that do not parse (e.g. a truncated write) are skipped
+export function readLedger(path = ledgerPath()): LedgerEntry[] {
+    if (!existsSync(path)) return []
+    const entries: LedgerEntry[] = []
+    for (const line of readFileSync(path, 'utf8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+            entries.push(JSON.parse(line) as LedgerEntry)
+        } catch {
+            // ignore
+        }
+    }
+    return entries
+}
+
+// The chat's most recent deployment recorded on this machine
+export function lastLedgerEntry(entries: LedgerEntry[], projectId: string, chatId: string): LedgerEntry | undefined {
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].projectId === projectId && entries[i].chatId === chatId) return entries[i]
+    }
+    return undefined
+}
+
+export function filterLedger(entries: LedgerEntry[], filter: LedgerFilter = {}): LedgerEntry[] {
+    const query = filter.query?.toLowerCase()
+    return entries.filter((entry) => {
+        if (filter.tag && !entry.tags.includes(filter.tag)) return false
+        if (filter.project && entry.projectId !== filter.project) return false
+        if (filter.since && new Date(entry.recordedAt) < filter.since) return false
+        if (query) {
+            const haystack = [
+                entry.deploymentId, entry.projectId, entry.chatId, entry.versionId, entry.webUrl,
+                entry.user, entry.gitCommit, entry.note, ...entry.tags,
+            ].filter(Boolean).join('\n').toLowerCase()
+            if (!haystack.includes(query)) return false
+        }
+        return true
+    })
+}
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+    'recordedAt', 'deploymentId', 'source', 'projectId', 'chatId', 'versionId',
+    'webUrl', 'inspectorUrl', 'user', 'cwd', 'gitCommit', 'gitDirty', 'note', 'tags',
+]
+
+function csvCell(value: unknown): string {
+    const text = Array.isArray(value) ? value.join(' ') : value === undefined ? '' : String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function renderLedger(entries: LedgerEntry[], format: LedgerExportFormat): string {
+    switch (format) {
+        case 'ndjson':
+            return entries.map((entry) => JSON.stringify(entry) + '\n').join('')
+        case 'csv':
+            return [CSV_COLUMNS.join(','), ...entries.map((entry) => CSV_COLUMNS.map((c) => csvCell(entry[c])).join(','))].join('\n') + '\n'
+        case 'json':
+        default:
+            return JSON.stringify(entries, null, 2) + '\n'
+    }
+}
@@ -0,0 +1,119 @@
+import chalk from 'chalk'
+import { createClient } from 'v0-sdk'
+import { DEFAULT_POLL_INTERVAL } from './wait.js'
+
+type V0Client = ReturnType<typeof createClient>
+
+export type LogLevel = 'error' | 'warn' | 'info'
+
+export interface LogEntry {
+    deploymentId: string
+    // When the CLI fetched the line; log lines carry no time of their own
+    fetchedAt: string
+    level: LogLevel
+    message: string
+}
+
+export interface FollowOptions {
+    since?: string
+    pollIntervalMs?: number
+    grep?: RegExp
+    ndjson?: boolean
+    // Aborting stops the loop after the current poll (Ctrl-C)
+    signal?: AbortSignal
+}
+
+export interface FollowResult {
+    lines: number
+    error?: string
+    aborted: boolean
+}
+
+// Longest overlap looked for between the previous batch's tail and the next batch's head
+const OVERLAP_LIMIT = 200
+
+export function detectLevel(line: string): LogLevel {
+    if (/\b(error|fatal|failed|exception)\b|\bERR!/i.test(line)) return 'error'
+    if (/\bwarn(ing)?\b/i.test(line)) return 'warn'
+    return 'info'
+}
+
+export function parseGrep(pattern?: string): RegExp | undefined {
+    if (!pattern) return undefined
+    try {
+        return new RegExp(pattern, 'i')
+    } catch {
+        throw new Error(`Invalid --grep pattern: ${pattern}`)
+    }
+}
+
+export function toLogEntry(deploymentId: string, message: string, fetchedAt = new Date()): LogEntry {
+    return { deploymentId, fetchedAt: fetchedAt.toISOString(), level: detectLevel(message), message }
+}
+
+export function printLogEntry(entry: LogEntry, ndjson = false): void {
+    if (ndjson) {
+        console.log(JSON.stringify(entry))
+        return
+    }
+    const time = chalk.gray(new Date(entry.fetchedAt).toLocaleTimeString())
+    const level = entry.level === 'error'
+        ? chalk.red('ERROR')
+        : entry.level === 'warn'
+            ? chalk.yellow('WARN ')
+            : chalk.blue('INFO ')
+    console.log(`${time} ${level} ${entry.message}`)
+}
+
+// A poll at the since cursor can repeat the tail of the previous batch. Only that
+// overlap is dropped; the same text elsewhere is a new line (e.g. repeated requests).
+export function overlapLength(previous: string[], batch: string[]): number {
+    for (let k = Math.min(previous.length, batch.length, OVERLAP_LIMIT); k > 0; k--) {
+        let matches = true
+        for (let i = 0; i < k; i++) {
+            if (previous[previous.length - k + i] !== batch[i]) {
+                matches = false
+                break
+            }
+        }
+        if (matches) return k
+    }
+    return 0
+}
+
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve()
+        const timer = setTimeout(done, ms)
+        function done() {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', done)
+            resolve()
+        }
+        signal?.addEventListener('abort', done)
+    })
+}
+
+// Poll findLogs with the nextSince cursor until the API stops returning one, reports an error, or the signal aborts
+export async function followLogs(v0: V0Client, deploymentId: string, options: FollowOptions = {}): Promise<FollowResult> {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL * 1000
+    let previous: string[] = []
+    let since = options.since
+    let lines = 0
+
+    while (!options.signal?.aborted) {
+        const response = await v0.deployments.findLogs({ deploymentId, since })
+        for (const line of response.logs.slice(overlapLength(previous, response.logs))) {
+            if (options.grep && !options.grep.test(line)) continue
+            printLogEntry(toLogEntry(deploymentId, line), options.ndjson)
+            lines++
+        }
+
+        if (response.logs.length > 0) previous = response.logs
+        if (response.error) return { lines, error: response.error, aborted: false }
+        if (response.nextSince === undefined) return { lines, aborted: false }
+        since = String(response.nextSince)
+        await sleepUnlessAborted(pollIntervalMs, options.signal)
+    }
+    return { lines, aborted: true }
+}
@@ -0,0 +1,393 @@
+import { existsSync, readFileSync } from 'fs'
+import YAML from 'yaml'
+import { createClient } from 'v0-sdk'
+import { ALL_EVENTS, HookEvent } from './hooks.js'
+import { collectPages, offsetPage } from './paginate.js'
+import { resolveVersionTag, versionTagsPath } from './version-tags.js'
+
+type V0Client = ReturnType<typeof createClient>
+type Deployment = Awaited<ReturnType<V0Client['deployments']['create']>>
+
+export const DEFAULT_MANIFEST_FILE = 'v0.deploy.yaml'
+
+// Exactly one of id/name is set after validation
+export interface ResourceRef {
+    id?: string
+    name?: string
+}
+
+export type VersionSelector =
+    | { kind: 'latest' }
+    | { kind: 'id'; id: string }
+    | { kind: 'tag'; tag: string }
+
+export interface ManifestHook {
+    name: string
+    url: string
+    events: HookEvent[]
+}
+
+export interface DeployManifest {
+    project: ResourceRef
+    chat: ResourceRef
+    version: VersionSelector
+    // Values with ${NAME} references are already expanded from the environment
+    env: Record<string, string>
+    hooks: ManifestHook[]
+    // tag -> version ID for the manifest's chat, so tag: selectors resolve on any machine
+    tags: Record<string, string>
+}
+
+export type PlanAction = 'create' | 'update' | 'unchanged'
+
+export interface PlanStep {
+    resource: 'env' | 'hook' | 'deployment'
+    name: string
+    action: PlanAction
+    detail?: string
+}
+
+export interface DeployPlan {
+    project: { id: string; name: string }
+    chat: { id: string; name?: string }
+    versionId: string
+    steps: PlanStep[]
+    // Requests issued by applyPlan, in step order
+    envCreates: { key: string; value: string }[]
+    envUpdates: { id: string; value: string }[]
+    hookCreates: ManifestHook[]
+    hookUpdates: (ManifestHook & { hookId: string })[]
+    deploy: boolean
+}
+
+export interface ApplyResult {
+    deployment?: Deployment
+}
+
+const TOP_LEVEL_KEYS = ['project', 'chat', 'version', 'env', 'hooks', 'tags']
+const ENV_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g
+const TAG_NAME = /^[\w.-]+$/
+const CHAT_PAGE_SIZE = 50
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], field: string, issues: string[]): void {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) {
+            issues.push(`${field ? `${field}: ` : ''}unknown key "${key}" (expected ${allowed.join(', ')})`)
+        }
+    }
+}
+
+function validateRef(value: unknown, field: string, issues: string[]): ResourceRef {
+    if (!isObject(value)) {
+        issues.push(`${field}: expected a mapping with "id" or "name"`)
+        return {}
+    }
+    checkKeys(value, ['id', 'name'], field, issues)
+    if (value.id !== undefined && value.name !== undefined) {
+        issues.push(`${field}: use either "id" or "name", not both`)
+        return {}
+    }
+    const key = value.id !== undefined ? 'id' : value.name !== undefined ? 'name' : undefined
+    if (!key) {
+        issues.push(`${field}: "id" or "name" is required`)
+        return {}
+    }
+    if (!isNonEmptyString(value[key])) {
+        issues.push(`${field}.${key}: expected a non-empty string`)
+        return {}
+    }
+    return { [key]: (value[key] as string).trim() }
+}
+
+function validateVersion(value: unknown, issues: string[]): VersionSelector {
+    if (value === undefined || value === 'latest') return { kind: 'latest' }
+    if (!isNonEmptyString(value)) {
+        issues.push('version: expected "latest", a version ID or "tag:<name>"')
+        return { kind: 'latest' }
+    }
+    if (value.startsWith('tag:')) {
+        const tag = value.slice(4).trim()
+        if (!TAG_NAME.test(tag)) issues.push(`version: invalid tag "${tag}"`)
+        return { kind: 'tag', tag }
+    }
+    return { kind: 'id', id: value.trim() }
+}
+
+function validateEnv(value: unknown, env: NodeJS.ProcessEnv, issues: string[]): Record<string, string> {
+    if (value === undefined || value === null) return {}
+    if (!isObject(value)) {
+        issues.push('env: expected a mapping of KEY: value')
+        return {}
+    }
+    const result: Record<string, string> = {}
+    for (const [key, raw] of Object.entries(value)) {
+        if (!ENV_KEY.test(key)) {
+            issues.push(`env.${key}: invalid key (use letters, digits and "_", not starting with a digit)`)
+            continue
+        }
+        if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') {
+            issues.push(`env.${key}: expected a string, number or boolean`)
+            continue
+        }
+        // ${NAME} keeps secrets out of the manifest; they are read from the environment at apply time
+        result[key] = String(raw).replace(ENV_REFERENCE, (match, name: string) => {
+            if (env[name] !== undefined) return env[name] as string
+            issues.push(`env.${key}: \${${name}} is not set in the environment`)
+            return match
+        })
+    }
+    return result
+}
+
+function validateTags(value: unknown, issues: string[]): Record<string, string> {
+    if (value === undefined || value === null) return {}
+    if (!isObject(value)) {
+        issues.push('tags: expected a mapping of tag: versionId')
+        return {}
+    }
+    const tags: Record<string, string> = {}
+    for (const [tag, versionId] of Object.entries(value)) {
+        if (!TAG_NAME.test(tag)) {
+            issues.push(`tags.${tag}: invalid tag name`)
+        } else if (!isNonEmptyString(versionId)) {
+            issues.push(`tags.${tag}: expected a version ID`)
+        } else {
+            tags[tag] = versionId.trim()
+        }
+    }
+    return tags
+}
+
+function validateHooks(value: unknown, issues: string[]): ManifestHook[] {
+    if (value === undefined || value === null) return []
+    if (!Array.isArray(value)) {
+        issues.push('hooks: expected a list')
+        return []
+    }
+    const hooks: ManifestHook[] = []
+    const names = new Set<string>()
+    value.forEach((hook, i) => {
+        const field = `hooks[${i}]`
+        if (!isObject(hook)) {
+            issues.push(`${field}: expected a mapping with name, url and events`)
+            return
+        }
+        checkKeys(hook, ['name', 'url', 'events'], field, issues)
+        const before = issues.length
+        if (!isNonEmptyString(hook.name)) {
+            issues.push(`${field}.name: expected a non-empty string`)
+        } else if (names.has(hook.name)) {
+            issues.push(`${field}.name: duplicate hook name "${hook.name}"`)
+        } else {
+            names.add(hook.name)
+        }
+        if (!isNonEmptyString(hook.url) || !/^https?:\/\//.test(hook.url)) {
+            issues.push(`${field}.url: expected an http(s) URL`)
+        }
+        if (!Array.isArray(hook.events) || hook.events.length === 0) {
+            issues.push(`${field}.events: expected a non-empty list of events`)
+        } else {
+            for (const event of hook.events) {
+                if (!ALL_EVENTS.includes(event as HookEvent)) {
+                    issues.push(`${field}.events: unknown event "${event}" (expected one of ${ALL_EVENTS.join(', ')})`)
+                }
+            }
+        }
+        if (issues.length === before) {
+            hooks.push({ name: hook.name as string, url: hook.url as string, events: hook.events as HookEvent[] })
+        }
+    })
+    return hooks
+}
+
+// Check the parsed document and report every problem at once
+export function validateManifest(raw: unknown, source = DEFAULT_MANIFEST_FILE, env: NodeJS.ProcessEnv = process.env): DeployManifest {
+    const issues: string[] = []
+    if (!isObject(raw)) {
+        throw new Error(`Invalid manifest ${source}:\n  - expected a mapping at the top level`)
+    }
+    checkKeys(raw, TOP_LEVEL_KEYS, '', issues)
+    const manifest: DeployManifest = {
+        project: validateRef(raw.project, 'project', issues),
+        chat: validateRef(raw.chat, 'chat', issues),
+        version: validateVersion(raw.version, issues),
+        env: validateEnv(raw.env, env, issues),
+        hooks: validateHooks(raw.hooks, issues),
+        tags: validateTags(raw.tags, issues),
+    }
+    if (issues.length > 0) {
+        throw new Error(`Invalid manifest ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`)
+    }
+    return manifest
+}
+
+export function loadManifest(path = DEFAULT_MANIFEST_FILE, env: NodeJS.ProcessEnv = process.env): DeployManifest {
+    if (!existsSync(path)) {
+        throw new Error(`Manifest not found: ${path}`)
+    }
+    let raw: unknown
+    try {
+        raw = YAML.parse(readFileSync(path, 'utf8'))
+    } catch (err) {
+        throw new Error(`Could not parse ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    return validateManifest(raw, path, env)
+}
+
+async function resolveProject(v0: V0Client, ref: ResourceRef) {
+    if (ref.id) return v0.projects.getById({ projectId: ref.id })
+    const wanted = ref.name!.toLowerCase()
+    const matches = (await v0.projects.find()).data.filter((p) => p.name.toLowerCase() === wanted)
+    if (matches.length === 0) throw new Error(`Project "${ref.name}" not found`)
+    if (matches.length > 1) throw new Error(`${matches.length} projects are named "${ref.name}"; use project.id instead`)
+    return v0.projects.getById({ projectId: matches[0].id })
+}
+
+async function resolveChat(v0: V0Client, ref: ResourceRef, projectId: string) {
+    if (ref.id) return v0.chats.getById({ chatId: ref.id })
+    const wanted = ref.name!.toLowerCase()
+    const matches = await collectPages(async (cursor) => {
+        const offset = cursor ? parseInt(cursor, 10) : 0
+        const page = await v0.chats.find({ limit: String(CHAT_PAGE_SIZE), offset: String(offset) })
+        return offsetPage(page.data, offset, CHAT_PAGE_SIZE)
+    }, { filter: (c) => c.projectId === projectId && (c.name || '').toLowerCase() === wanted })
+    if (matches.length === 0) throw new Error(`Chat "${ref.name}" not found in project ${projectId}`)
+    if (matches.length > 1) throw new Error(`${matches.length} chats are named "${ref.name}"; use chat.id instead`)
+    return v0.chats.getById({ chatId: matches[0].id })
+}
+
+// Tags from the manifest win over the ones recorded on this machine by "chat versions tag"
+function resolveTag(chatId: string, tag: string, manifestTags: Record<string, string>): string {
+    const versionId = manifestTags[tag] ?? resolveVersionTag(chatId, tag)
+    if (!versionId) {
+        throw new Error(
+            `No version tagged "${tag}" for chat ${chatId}. Tags set with "v0 chat versions tag" are stored on this machine only ` +
+            `(${versionTagsPath()}); to share the manifest, map the tag under "tags:" in it or use a version ID`,
+        )
+    }
+    return versionId
+}
+
+async function resolveVersionId(v0: V0Client, chat: Awaited<ReturnType<V0Client['chats']['getById']>>, selector: VersionSelector, manifestTags: Record<string, string>): Promise<string> {
+    if (selector.kind === 'latest') {
+        const latest = chat.latestVersion
+        if (!latest) throw new Error(`Chat ${chat.id} has no versions yet`)
+        if (latest.status !== 'completed') throw new Error(`Latest version ${latest.id} is ${latest.status}`)
+        return latest.id
+    }
+    const versionId = selector.kind === 'id' ? selector.id : resolveTag(chat.id, selector.tag, manifestTags)
+    const version = await v0.chats.getVersion({ chatId: chat.id, versionId })
+    if (version.status !== 'completed') throw new Error(`Version ${version.id} is ${version.status}`)
+    return version.id
+}
+
+function sameEvents(a: string[], b: string[]): boolean {
+    return a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',')
+}
+
+// Resolve the manifest against the API and work out which requests would converge it
+export async function planManifest(v0: V0Client, manifest: DeployManifest): Promise<DeployPlan> {
+    const project = await resolveProject(v0, manifest.project)
+    if (!project.vercelProjectId) {
+        throw new Error(`Project ${project.name} (${project.id}) is not linked to Vercel (try: v0 vercel create)`)
+    }
+    const chat = await resolveChat(v0, manifest.chat, project.id)
+    const versionId = await resolveVersionId(v0, chat, manifest.version, manifest.tags)
+
+    const plan: DeployPlan = {
+        project: { id: project.id, name: project.name },
+        chat: { id: chat.id, name: chat.name },
+        versionId,
+        steps: [],
+        envCreates: [],
+        envUpdates: [],
+        hookCreates: [],
+        hookUpdates: [],
+        deploy: false,
+    }
+
+    if (Object.keys(manifest.env).length > 0) {
+        const existing = (await v0.projects.findEnvVars({ projectId: project.id, decrypted: 'true' })).data
+        for (const [key, value] of Object.entries(manifest.env)) {
+            const current = existing.find((e) => e.key === key)
+            if (!current) {
+                plan.envCreates.push({ key, value })
+                plan.steps.push({ resource: 'env', name: key, action: 'create' })
+            } else if (current.value !== value) {
+                plan.envUpdates.push({ id: current.id, value })
+                plan.steps.push({ resource: 'env', name: key, action: 'update', detail: 'value changed' })
+            } else {
+                plan.steps.push({ resource: 'env', name: key, action: 'unchanged' })
+            }
+        }
+    }
+
+    if (manifest.hooks.length > 0) {
+        const summaries = (await v0.hooks.find()).data
+        for (const hook of manifest.hooks) {
+            // Hook summaries only carry names; fetch details to find the one scoped to this project
+            const candidates = await Promise.all(summaries
+                .filter((s) => s.name === hook.name)
+                .map((s) => v0.hooks.getById({ hookId: s.id })))
+            const current = candidates.find((c) => c.projectId === project.id)
+            if (!current) {
+                plan.hookCreates.push(hook)
+                plan.steps.push({ resource: 'hook', name: hook.name, action: 'create', detail: hook.url })
+                continue
+            }
+            const changed = [
+                current.url !== hook.url && 'url',
+                !sameEvents(current.events, hook.events) && 'events',
+            ].filter(Boolean)
+            if (changed.length > 0) {
+                plan.hookUpdates.push({ ...hook, hookId: current.id })
+                plan.steps.push({ resource: 'hook', name: hook.name, action: 'update', detail: `${changed.join(', ')} changed` })
+            } else {
+                plan.steps.push({ resource: 'hook', name: hook.name, action: 'unchanged' })
+            }
+        }
+    }
+
+    // An existing deployment of the same version makes the apply a no-op
+    const deployments = await v0.deployments.find({ projectId: project.id, chatId: chat.id, versionId })
+    if (deployments.data.length > 0) {
+        plan.steps.push({ resource: 'deployment', name: versionId, action: 'unchanged', detail: deployments.data[0].webUrl })
+    } else {
+        plan.deploy = true
+        plan.steps.push({ resource: 'deployment', name: versionId, action: 'create' })
+    }
+    return plan
+}
+
+export function countChanges(plan: DeployPlan): number {
+    return plan.steps.filter((s) => s.action !== 'unchanged').length
+}
+
+// Env vars go first so the deployment builds with them
+export async function applyPlan(v0: V0Client, plan: DeployPlan): Promise<ApplyResult> {
+    const projectId = plan.project.id
+    if (plan.envCreates.length > 0) {
+        await v0.projects.createEnvVars({ projectId, environmentVariables: plan.envCreates })
+    }
+    if (plan.envUpdates.length > 0) {
+        await v0.projects.updateEnvVars({ projectId, environmentVariables: plan.envUpdates })
+    }
+    for (const hook of plan.hookCreates) {
+        await v0.hooks.create({ ...hook, projectId })
+    }
+    for (const { hookId, ...hook } of plan.hookUpdates) {
+        await v0.hooks.update({ hookId, ...hook })
+    }
+    if (!plan.deploy) return {}
+    const deployment = await v0.deployments.create({ projectId, chatId: plan.chat.id, versionId: plan.versionId })
+    return { deployment }
+}
@@ -2,11 +2,35 @@ import chalk from 'chalk'
 import { CliConfig } from './config.js'
 import YAML from 'yaml'
 
-export function formatOutput(data: any, format: 'json' | 'table' | 'yaml' = 'table'): void {
+export type OutputFormat = 'json' | 'table' | 'yaml'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'yaml']
+
+// Precedence: the command's -o flag, the global -o flag, V0_OUTPUT, then the configured default
+export function resolveOutputFormat<T extends string = OutputFormat>(
+    commandFormat: string | undefined,
+    globalFormat: string | undefined,
+    configFormat: string,
+    allowed: readonly string[] = OUTPUT_FORMATS,
+): T {
+    const format = commandFormat || globalFormat || process.env.V0_OUTPUT || configFormat
+    if (!allowed.includes(format)) {
+        throw new Error(`Invalid output format "${format}". Use one of: ${allowed.join(', ')}`)
+    }
+    return format as T
+}
+
+export function formatOutput(data: any, format: 'json' | 'table' | 'yaml' | 'ndjson' = 'table'): void {
     switch (format) {
         case 'json':
             console.log(JSON.stringify(data, null, 2))
             break
+        case 'ndjson':
+            // One compact JSON document per line
+            for (const item of Array.isArray(data) ? data : [data]) {
+                console.log(JSON.stringify(item))
+            }
+            break
         case 'yaml':
             try {
                 const yamlString = YAML.stringify(data)
@@ -91,8 +115,9 @@ export function success(message: string): void {
     console.log(chalk.green('✓'), message)
 }
 
+// Callers pass SDK error messages through, and those carry the response body
 export function error(message: string): void {
-    console.error(chalk.red('✗'), message)
+    console.error(chalk.red('✗'), redactText(message))
 }
 
 export function info(message: string): void {
@@ -137,6 +162,50 @@ export function formatUser(user: any): void {
     console.log(`Avatar: ${user.avatar}`)
 }
 
+// Keep the last 4 characters, like the API key in `config show`; short values are hidden entirely
+export function maskValue(value: string): string {
+    return value.length < 8 ? '***' : `***${value.slice(-4)}`
+}
+
+// Env var values and anything that looks like a credential
+const SECRET_FIELD = /^value$|secret|token|password|passwd|api[-_]?key|authorization/i
+const SECRET_JSON_FIELD = /("(?:value|[^"]*(?:secret|token|password|passwd|api[-_]?key|authorization)[^"]*)"\s*:\s*)"((?:[^"\\]|\\.)*)"/gi
+
+export function redactSecrets(data: unknown): unknown {
+    if (Array.isArray(data)) return data.map(redactSecrets)
+    if (data && typeof data === 'object') {
+        return Object.fromEntries(Object.entries(data).map(([key, value]) => [
+            key,
+            SECRET_FIELD.test(key) && typeof value === 'string' ? maskValue(value) : redactSecrets(value),
+        ]))
+    }
+    return data
+}
+
+// Mask secret-looking JSON fields, bearer tokens and URL passwords inside free text.
+// The SDK throws `HTTP <status>: <body>`, so error messages can echo a request back.
+export function redactText(text: string): string {
+    return text
+        .replace(SECRET_JSON_FIELD, (_match, field: string, value: string) => `${field}"${maskValue(value)}"`)
+        .replace(/Bearer\s+[\w.~+/=-]+/g, 'Bearer ***')
+        .replace(/(\w+:\/\/[^\s:/@"]+:)[^\s@"]+@/g, '$1***@')
+}
+
+function redactBody(body: unknown): string {
+    if (typeof body === 'string') {
+        try {
+            return JSON.stringify(redactSecrets(JSON.parse(body)), null, 2)
+        } catch {
+            return redactText(body)
+        }
+    }
+    try {
+        return JSON.stringify(redactSecrets(body), null, 2)
+    } catch {
+        return String(body)
+    }
+}
+
 export function printSdkError(err: unknown, verbose: boolean = false): void {
     const unknownMsg = 'Unknown error'
     if (!err) {
@@ -153,18 +222,14 @@ export function printSdkError(err: unknown, verbose: boolean = false): void {
     const parts: string[] = []
     if (status) parts.push(`status=${status}`)
     if (code) parts.push(`code=${code}`)
-    if (detail) parts.push(`message=${detail}`)
+    if (detail) parts.push(`message=${redactText(detail)}`)
     if (parts.length > 0) {
         console.error(chalk.gray('Details:'), parts.join(' | '))
     }
     if (verbose && body) {
-        try {
-            console.error(chalk.gray('Body:'), typeof body === 'string' ? body : JSON.stringify(body, null, 2))
-        } catch {
-            console.error(chalk.gray('Body:'), String(body))
-        }
+        console.error(chalk.gray('Body:'), redactBody(body))
     }
     if (verbose && anyErr?.stack) {
-        console.error(chalk.gray(anyErr.stack))
+        console.error(chalk.gray(redactText(anyErr.stack)))
     }
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import ora from 'ora'
+import { formatOutput } from './output.js'
+import { sleep } from './wait.js'
+
+export type ListOutputFormat = 'json' | 'table' | 'yaml' | 'ndjson'
+
+export const LIST_OUTPUT_FORMATS: ListOutputFormat[] = ['json', 'table', 'yaml', 'ndjson']
+
+export interface Page<T> {
+    data: T[]
+    // Opaque token for the next page; undefined on the last page
+    nextCursor?: string
+}
+
+export type PageFetcher<T> = (cursor: string | undefined) => Promise<Page<T>>
+
+export interface PaginateOptions<T = unknown> {
+    // Stop after this many items
+    max?: number
+    // Retries per page when the API answers 429
+    retries?: number
+    retryDelayMs?: number
+    // Items that fail the filter do not count towards max
+    filter?: (item: T) => boolean
+    onPage?: (count: number) => void
+}
+
+export const DEFAULT_RATE_LIMIT_RETRIES = 5
+const DEFAULT_RETRY_DELAY_MS = 1000
+
+export function isRateLimitError(err: unknown): boolean {
+    const anyErr = err as any
+    const status = anyErr?.status || anyErr?.response?.status
+    return status === 429 || /\bHTTP 429\b/.test(anyErr?.message || '')
+}
+
+// Retry a request with exponential backoff while it is rate limited
+export async function withRateLimitRetry<T>(request: () => Promise<T>, retries = DEFAULT_RATE_LIMIT_RETRIES, delayMs = DEFAULT_RETRY_DELAY_MS): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request()
+        } catch (err) {
+            if (!isRateLimitError(err) || attempt >= retries) throw err
+            await sleep(delayMs * 2 ** attempt)
+        }
+    }
+}
+
+export const DEFAULT_CONCURRENCY = 4
+
+// Map items with at most `limit` requests in flight; results keep the input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length)
+    let next = 0
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++
+            results[index] = await fn(items[index], index)
+        }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+    return results
+}
+
+// Yield items page by page until the last page or --max is reached
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions<T> = {}): AsyncGenerator<T> {
+    const max = options.max ?? Infinity
+    const keep = options.filter || (() => true)
+    let count = 0
+    let cursor: string | undefined
+    do {
+        const page = await withRateLimitRetry(() => fetchPage(cursor), options.retries, options.retryDelayMs)
+        for (const item of page.data) {
+            if (!keep(item)) continue
+            if (count >= max) return
+            count++
+            yield item
+        }
+        options.onPage?.(count)
+        cursor = page.nextCursor
+    } while (cursor && count < max)
+}
+
+export async function collectPages<T>(fetchPage: PageFetcher<T>, options: PaginateOptions<T> = {}): Promise<T[]> {
+    const items: T[] = []
+    for await (const item of paginate(fetchPage, options)) items.push(item)
+    return items
+}
+
+// Adapters for the two pagination styles of the API
+export function cursorPage<T>(response: { data: T[]; pagination?: { hasMore: boolean; nextCursor?: string } }): Page<T> {
+    return { data: response.data, nextCursor: response.pagination?.hasMore ? response.pagination.nextCursor : undefined }
+}
+
+export function offsetPage<T>(data: T[], offset: number, pageSize: number): Page<T> {
+    return { data, nextCursor: data.length >= pageSize ? String(offset + data.length) : undefined }
+}
+
+// --all / --max turn a list command into a paginated one
+export function wantsAllPages(options: { all?: boolean; max?: string }): boolean {
+    return !!options.all || options.max !== undefined
+}
+
+export function parseMax(max?: string, flag = '--max'): number | undefined {
+    if (max === undefined) return undefined
+    // parseInt alone would read "1MB" as 1
+    const value = /^\s*\d+\s*$/.test(max) ? parseInt(max, 10) : NaN
+    if (!Number.isFinite(value) || value < 1) {
+        throw new Error(`Invalid ${flag} value: ${max}`)
+    }
+    return value
+}
+
+export interface PrintPagesOptions<T> extends PaginateOptions<T> {
+    // Plural resource name for progress messages, e.g. 'versions'
+    label: string
+    format: ListOutputFormat
+    // Shape of each printed row; items are printed as-is without it
+    toRow?: (item: T) => any
+}
+
+// ndjson streams one line per item as pages arrive; other formats merge every page into one formatOutput call
+export async function printPages<T>(fetchPage: PageFetcher<T>, options: PrintPagesOptions<T>): Promise<number> {
+    if (options.format === 'ndjson') {
+        let count = 0
+        for await (const item of paginate(fetchPage, options)) {
+            console.log(JSON.stringify(options.toRow ? options.toRow(item) : item))
+            count++
+        }
+        return count
+    }
+
+    const spinner = ora(`Fetching ${options.label}...`).start()
+    const items = await collectPages(fetchPage, {
+        ...options,
+        onPage: (count) => {
+            spinner.text = `Fetching ${options.label}... (${count})`
+            options.onPage?.(count)
+        },
+    })
+    spinner.succeed(`Found ${items.length} ${options.label}`)
+    formatOutput(options.toRow ? items.map(options.toRow) : items, options.format)
+    return items.length
+}
@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs'
+
+// Passed in place of a message or file path to read from stdin
+export const STDIN = '-'
+
+export interface PromptSources {
+    // Positional message / --system value; '-' reads stdin
+    inline?: string
+    // --message-file / --system-file path; '-' reads stdin
+    file?: string
+    // Names used in error messages, e.g. 'message' and '--message-file'
+    flag: string
+    fileFlag: string
+}
+
+export async function readStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+    const chunks: Buffer[] = []
+    for await (const chunk of stream) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+}
+
+// Commander collector for a repeatable --var. A variadic option would also swallow a
+// positional message that follows it (`--var a=1 "msg"`).
+export function collectVars(value: string, previous: string[] = []): string[] {
+    return [...previous, value]
+}
+
+// Parse repeated --var key=value flags
+export function parseVars(pairs: string[] = []): Record<string, string> {
+    const vars: Record<string, string> = {}
+    for (const pair of pairs) {
+        const idx = pair.indexOf('=')
+        if (idx <= 0) {
+            throw new Error(`Invalid --var "${pair}". Use key=value`)
+        }
+        vars[pair.slice(0, idx).trim()] = pair.slice(idx + 1)
+    }
+    return vars
+}
+
+// Replace {{name}} placeholders; unknown placeholders are an error so pipelines fail loudly
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+    const missing = new Set<string>()
+    const rendered = text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => {
+        if (Object.prototype.hasOwnProperty.call(vars, name)) return vars[name]
+        missing.add(name)
+        return match
+    })
+    if (missing.size > 0) {
+        throw new Error(`Missing template variable(s): ${Array.from(missing).join(', ')}. Pass them with --var key=value`)
+    }
+    return rendered
+}
+
+// Resolve several prompt inputs at once; only one of them may read stdin
+export async function resolvePrompts(sources: PromptSources[], varPairs?: string[]): Promise<(string | undefined)[]> {
+    const fromStdin = sources.filter((s) => s.inline === STDIN || s.file === STDIN)
+    if (fromStdin.length > 1) {
+        throw new Error(`Only one of ${fromStdin.map((s) => s.flag).join(', ')} can read from stdin`)
+    }
+    for (const source of sources) {
+        if (source.inline !== undefined && source.file !== undefined) {
+            throw new Error(`Use either ${source.flag} or ${source.fileFlag}, not both`)
+        }
+    }
+
+    // Templating only kicks in with --var, so literal braces in plain prompts are left alone
+    const vars = varPairs && varPairs.length > 0 ? parseVars(varPairs) : undefined
+    const results: (string | undefined)[] = []
+    for (const source of sources) {
+        let text: string | undefined
+        if (source.inline === STDIN || source.file === STDIN) {
+            text = await readStdin()
+        } else if (source.file !== undefined) {
+            text = readFileSync(source.file, 'utf8')
+        } else {
+            text = source.inline
+        }
+        if (text !== undefined && text !== source.inline && text.trim().length === 0) {
+            throw new Error(`${source.file === STDIN || source.inline === STDIN ? 'stdin' : source.file} is empty`)
+        }
+        results.push(text !== undefined && vars ? renderTemplate(text, vars) : text)
+    }
+    return results
+}
@@ -0,0 +1,94 @@
+import chalk from 'chalk'
+import { formatOutput } from './output.js'
+
+export interface SmokeCheck {
+    path: string
+    // Expected status code; any 2xx when omitted
+    status?: number
+    // Text the response body must contain
+    contains?: string
+}
+
+export interface SmokeResult {
+    check: string
+    url: string
+    status?: number
+    ok: boolean
+    durationMs: number
+    error?: string
+}
+
+export interface SmokeOptions {
+    timeoutMs?: number
+}
+
+export const DEFAULT_CHECK_TIMEOUT = 10
+
+// Exit code when the deployment is live but a smoke check fails
+export const EXIT_CHECKS_FAILED = 4
+
+// The path is matched lazily so query strings may contain '='
+const CHECK_SPEC = /^(\/[^~\s]*?)(?:=(\d{3}))?(?:~([\s\S]+))?$/
+
+// PATH[=STATUS][~TEXT], e.g. /, /api/health=200, /about~About us, /old=301
+export function parseCheck(spec: string): SmokeCheck {
+    const match = CHECK_SPEC.exec(spec.trim())
+    if (!match) {
+        throw new Error(`Invalid check "${spec}". Use PATH[=STATUS][~TEXT], e.g. /api/health=200~ok`)
+    }
+    return {
+        path: match[1],
+        ...(match[2] ? { status: parseInt(match[2], 10) } : {}),
+        ...(match[3] ? { contains: match[3] } : {}),
+    }
+}
+
+export function formatCheck(check: SmokeCheck): string {
+    return `${check.path}${check.status ? `=${check.status}` : ''}${check.contains ? `~${check.contains}` : ''}`
+}
+
+// Deployment URLs are sometimes reported without a scheme
+function checkUrl(baseUrl: string, path: string): string {
+    const base = /^https?:\/\//.test(baseUrl) ? baseUrl : `https://${baseUrl}`
+    return new URL(path, base).toString()
+}
+
+async function runCheck(baseUrl: string, check: SmokeCheck, timeoutMs: number): Promise<SmokeResult> {
+    const url = checkUrl(baseUrl, check.path)
+    const started = Date.now()
+    const result = (fields: Partial<SmokeResult>): SmokeResult => ({ check: formatCheck(check), url, ok: false, durationMs: Date.now() - started, ...fields })
+    try {
+        const res = await fetch(url, { redirect: check.status && check.status >= 300 && check.status < 400 ? 'manual' : 'follow', signal: AbortSignal.timeout(timeoutMs) })
+        const statusOk = check.status ? res.status === check.status : res.ok
+        if (!statusOk) {
+            return result({ status: res.status, error: `expected ${check.status ?? '2xx'}, got ${res.status}` })
+        }
+        if (check.contains && !(await res.text()).includes(check.contains)) {
+            return result({ status: res.status, error: `body does not contain "${check.contains}"` })
+        }
+        return result({ status: res.status, ok: true })
+    } catch (err) {
+        return result({ error: err instanceof Error ? err.message : String(err) })
+    }
+}
+
+// Checks run one at a time so a cold deployment is not hit all at once
+export async function runSmokeChecks(baseUrl: string, checks: SmokeCheck[], options: SmokeOptions = {}): Promise<SmokeResult[]> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT * 1000
+    const results: SmokeResult[] = []
+    for (const check of checks) {
+        results.push(await runCheck(baseUrl, check, timeoutMs))
+    }
+    return results
+}
+
+export function printSmokeResults(results: SmokeResult[]): void {
+    console.log(chalk.blue('Smoke Checks:'))
+    formatOutput(results.map((r) => ({
+        result: r.ok ? 'PASS' : 'FAIL',
+        check: r.check,
+        status: r.status ?? '',
+        time: `${r.durationMs}ms`,
+        error: r.error || '',
+    })), 'table')
+}
@@ -0,0 +1,219 @@
+import { createClient } from 'v0-sdk'
+import { VersionFile } from './files.js'
+import { collectPages, cursorPage } from './paginate.js'
+
+type V0Client = ReturnType<typeof createClient>
+type ChatDetail = Awaited<ReturnType<V0Client['chats']['getById']>>
+type MessageSummary = Awaited<ReturnType<V0Client['chats']['findMessages']>>['data'][number]
+type VersionSummary = Awaited<ReturnType<V0Client['chats']['findVersions']>>['data'][number]
+
+export type TranscriptFormat = 'md' | 'html' | 'jsonl'
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['md', 'html', 'jsonl']
+
+export interface TranscriptVersion {
+    id: string
+    files: VersionFile[]
+}
+
+export interface TranscriptMessage {
+    id: string
+    role: MessageSummary['role']
+    type: MessageSummary['type']
+    createdAt: string
+    content: string
+    versionId?: string
+}
+
+export interface Transcript {
+    chat: Pick<ChatDetail, 'id' | 'name' | 'webUrl' | 'createdAt'>
+    messages: TranscriptMessage[]
+    // Embedded version files by version ID (only with --include-files)
+    versions: Record<string, TranscriptVersion>
+}
+
+// Follow pagination.nextCursor through every page of findMessages
+export function fetchAllMessages(v0: V0Client, chatId: string, onPage?: (count: number) => void): Promise<MessageSummary[]> {
+    return collectPages((cursor) => v0.chats.findMessages({ chatId, cursor }).then(cursorPage), { onPage })
+}
+
+export function fetchAllVersions(v0: V0Client, chatId: string): Promise<VersionSummary[]> {
+    return collectPages((cursor) => v0.chats.findVersions({ chatId, cursor }).then(cursorPage))
+}
+
+export function toTranscriptMessages(messages: MessageSummary[]): TranscriptMessage[] {
+    return messages
+        .map((m) => ({
+            id: m.id,
+            role: m.role,
+            type: m.type,
+            createdAt: m.createdAt,
+            content: m.content || '',
+        }))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+}
+
+// Messages do not say which version they produced, so a version goes under the last assistant
+// message sent at or before it was created. When two versions land on one message the newer one
+// is kept there; the rest, like versions older than every assistant message, are appended.
+export function linkVersions(messages: TranscriptMessage[], versions: Pick<VersionSummary, 'id' | 'createdAt'>[]): TranscriptMessage[] {
+    const linked = messages.map((m) => ({ ...m }))
+    const byAge = [...versions].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    for (const version of byAge) {
+        const created = new Date(version.createdAt).getTime()
+        const producer = linked.filter((m) => m.role === 'assistant' && new Date(m.createdAt).getTime() <= created).pop()
+        if (producer) producer.versionId = version.id
+    }
+    return linked
+}
+
+function roleTitle(role: string): string {
+    return role.charAt(0).toUpperCase() + role.slice(1)
+}
+
+function languageOf(name: string): string {
+    const ext = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : ''
+    return ext.toLowerCase()
+}
+
+// A fence longer than any backtick run in the content
+function fenceFor(content: string): string {
+    const longest = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length))
+    return '`'.repeat(longest + 1)
+}
+
+function versionOf(transcript: Transcript, message: TranscriptMessage): TranscriptVersion | undefined {
+    return message.versionId ? transcript.versions[message.versionId] : undefined
+}
+
+// Versions that no message points at are appended after the transcript
+function unreferencedVersions(transcript: Transcript): TranscriptVersion[] {
+    const referenced = new Set(transcript.messages.map((m) => m.versionId).filter(Boolean))
+    return Object.values(transcript.versions).filter((v) => !referenced.has(v.id))
+}
+
+export function renderMarkdown(transcript: Transcript): string {
+    const { chat } = transcript
+    const out: string[] = [`# ${chat.name || 'Untitled chat'}`, '']
+    out.push(`- Chat: ${chat.id}`)
+    if (chat.webUrl) out.push(`- URL: ${chat.webUrl}`)
+    out.push(`- Exported: ${new Date().toISOString()}`, '')
+
+    const renderFiles = (version: TranscriptVersion) => {
+        out.push(`### Files (version ${version.id})`, '')
+        for (const file of version.files) {
+            const fence = fenceFor(file.content)
+            out.push(`#### ${file.name}`, '', `${fence}${languageOf(file.name)}`, file.content.replace(/\n$/, ''), fence, '')
+        }
+    }
+
+    for (const message of transcript.messages) {
+        out.push(`## ${roleTitle(message.role)} · ${new Date(message.createdAt).toLocaleString()}`, '')
+        out.push(message.content.trim(), '')
+        const version = versionOf(transcript, message)
+        if (version) renderFiles(version)
+    }
+    unreferencedVersions(transcript).forEach(renderFiles)
+
+    return out.join('\n')
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// Fenced code blocks become <pre><code>, everything else is kept as escaped paragraphs
+function contentToHtml(content: string): string {
+    const parts: string[] = []
+    const fence = /^(`{3,})([^\n`]*)\n([\s\S]*?)\n?^\1`*[ \t]*$/gm
+    let last = 0
+    let match: RegExpExecArray | null
+    const paragraphs = (text: string) => text
+        .split(/\n{2,}/)
+        .map((p) => p.trim())
+        .filter(Boolean)
+        .map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    while ((match = fence.exec(content))) {
+        parts.push(...paragraphs(content.slice(last, match.index)))
+        const lang = match[2].trim().split(/\s+/)[0]
+        parts.push(`<pre><code${lang ? ` class="language-${escapeHtml(lang)}"` : ''}>${escapeHtml(match[3])}</code></pre>`)
+        last = match.index + match[0].length
+    }
+    parts.push(...paragraphs(content.slice(last)))
+    return parts.join('\n')
+}
+
+export function renderHtml(transcript: Transcript): string {
+    const { chat } = transcript
+    const title = escapeHtml(chat.name || 'Untitled chat')
+    const body: string[] = [`<h1>${title}</h1>`]
+    body.push(`<p class="meta">Chat ${escapeHtml(chat.id)}${chat.webUrl ? ` · <a href="${escapeHtml(chat.webUrl)}">${escapeHtml(chat.webUrl)}</a>` : ''}</p>`)
+
+    const renderFiles = (version: TranscriptVersion) => {
+        body.push(`<details class="files"><summary>Files (version ${escapeHtml(version.id)})</summary>`)
+        for (const file of version.files) {
+            body.push(`<h4>${escapeHtml(file.name)}</h4>`)
+            body.push(`<pre><code class="language-${escapeHtml(languageOf(file.name))}">${escapeHtml(file.content)}</code></pre>`)
+        }
+        body.push('</details>')
+    }
+
+    for (const message of transcript.messages) {
+        body.push(`<section class="message ${escapeHtml(message.role)}">`)
+        body.push(`<h2>${roleTitle(message.role)} <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(new Date(message.createdAt).toLocaleString())}</time></h2>`)
+        body.push(contentToHtml(message.content))
+        const version = versionOf(transcript, message)
+        if (version) renderFiles(version)
+        body.push('</section>')
+    }
+    unreferencedVersions(transcript).forEach(renderFiles)
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${title}</title>`,
+        '<style>',
+        'body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }',
+        '.meta, time { color: #666; font-size: 0.85em; font-weight: normal; }',
+        '.message { border-top: 1px solid #ddd; padding-top: 0.5rem; }',
+        '.message.user h2 { color: #0b5fff; }',
+        '.message.assistant h2 { color: #1a7f37; }',
+        'pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        ...body,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n')
+}
+
+// One JSON object per message; files are inlined on the message that produced them
+export function renderJsonl(transcript: Transcript): string {
+    const lines = transcript.messages.map((message) => {
+        const version = versionOf(transcript, message)
+        return JSON.stringify({ chatId: transcript.chat.id, ...message, ...(version ? { files: version.files } : {}) })
+    })
+    for (const version of unreferencedVersions(transcript)) {
+        lines.push(JSON.stringify({ chatId: transcript.chat.id, versionId: version.id, files: version.files }))
+    }
+    return lines.join('\n') + '\n'
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+    switch (format) {
+        case 'html':
+            return renderHtml(transcript)
+        case 'jsonl':
+            return renderJsonl(transcript)
+        default:
+            return renderMarkdown(transcript)
+    }
+}
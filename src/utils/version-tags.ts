@@ -0,0 +1,44 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { getConfigDir } from './config.js'
+
+// chatId -> tag -> versionId. The API has no version labels, so tags live next to the CLI config.
+export type VersionTags = Record<string, Record<string, string>>
+
+export function versionTagsPath(): string {
+    return join(getConfigDir(), 'version-tags.json')
+}
+
+export function readVersionTags(path = versionTagsPath()): VersionTags {
+    if (!existsSync(path)) return {}
+    try {
+        return JSON.parse(readFileSync(path, 'utf8')) as VersionTags
+    } catch {
+        throw new Error(`Could not read version tags from ${path}`)
+    }
+}
+
+function writeVersionTags(tags: VersionTags, path: string): void {
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, JSON.stringify(tags, null, 2) + '\n')
+}
+
+export function tagVersion(chatId: string, tag: string, versionId: string, path = versionTagsPath()): void {
+    const tags = readVersionTags(path)
+    tags[chatId] = { ...tags[chatId], [tag]: versionId }
+    writeVersionTags(tags, path)
+}
+
+// Returns false when the tag did not exist
+export function untagVersion(chatId: string, tag: string, path = versionTagsPath()): boolean {
+    const tags = readVersionTags(path)
+    if (!tags[chatId] || !(tag in tags[chatId])) return false
+    delete tags[chatId][tag]
+    if (Object.keys(tags[chatId]).length === 0) delete tags[chatId]
+    writeVersionTags(tags, path)
+    return true
+}
+
+export function resolveVersionTag(chatId: string, tag: string, path = versionTagsPath()): string | undefined {
+    return readVersionTags(path)[chatId]?.[tag]
+}
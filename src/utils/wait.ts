@@ -0,0 +1,175 @@
+import ora from 'ora'
+import { createClient } from 'v0-sdk'
+
+type V0Client = ReturnType<typeof createClient>
+type ChatDetail = Awaited<ReturnType<V0Client['chats']['getById']>>
+type LatestVersion = NonNullable<ChatDetail['latestVersion']>
+
+export const DEFAULT_WAIT_TIMEOUT = 300
+export const DEFAULT_POLL_INTERVAL = 3
+
+export interface WaitOptions {
+    timeoutMs?: number
+    pollIntervalMs?: number
+    // Version that existed before the request; the wait ignores it until a newer one shows up
+    ignoreVersionId?: string
+}
+
+export type WaitStatus = 'completed' | 'failed' | 'timeout'
+
+export interface WaitResult {
+    status: WaitStatus
+    chat: ChatDetail
+    version?: LatestVersion
+    elapsedMs: number
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Seconds as a plain non-negative number; parseFloat alone would read "5m" as 5
+function parseSeconds(value: string, flag: string): number {
+    const seconds = /^\s*\d+(\.\d+)?\s*$/.test(value) ? parseFloat(value) : NaN
+    if (!Number.isFinite(seconds)) {
+        throw new Error(`Invalid ${flag} value: ${value}. Expected a number of seconds`)
+    }
+    return seconds
+}
+
+// Convert the --timeout/--poll-interval option values (seconds) into WaitOptions
+export function waitOptionsFrom(options: { timeout?: string; pollInterval?: string }, timeoutFlag = '--timeout'): WaitOptions {
+    const timeout = options.timeout === undefined ? DEFAULT_WAIT_TIMEOUT : parseSeconds(options.timeout, timeoutFlag)
+    const pollInterval = options.pollInterval === undefined ? DEFAULT_POLL_INTERVAL : parseSeconds(options.pollInterval, '--poll-interval')
+    if (pollInterval === 0) {
+        throw new Error(`Invalid --poll-interval value: ${options.pollInterval}. Expected more than 0 seconds`)
+    }
+    return { timeoutMs: timeout * 1000, pollIntervalMs: pollInterval * 1000 }
+}
+
+// Poll a chat until its latest version is completed or failed, or the timeout elapses
+export async function waitForVersion(v0: V0Client, chatId: string, options: WaitOptions = {}): Promise<WaitResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT * 1000
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL * 1000
+    const spinner = ora('Waiting for version...').start()
+    const startTime = Date.now()
+
+    while (true) {
+        const chat = await v0.chats.getById({ chatId })
+        const elapsedMs = Date.now() - startTime
+        const version = chat.latestVersion && chat.latestVersion.id !== options.ignoreVersionId
+            ? chat.latestVersion
+            : undefined
+
+        if (version && version.status !== 'pending') {
+            const seconds = Math.round(elapsedMs / 1000)
+            if (version.status === 'completed') {
+                spinner.succeed(`Version ${version.id} completed (${seconds}s)`)
+            } else {
+                spinner.fail(`Version ${version.id} failed (${seconds}s)`)
+            }
+            return { status: version.status, chat, version, elapsedMs }
+        }
+
+        if (elapsedMs >= timeoutMs) {
+            spinner.fail(`Timed out after ${Math.round(elapsedMs / 1000)}s waiting for a version`)
+            return { status: 'timeout', chat, version, elapsedMs }
+        }
+
+        spinner.text = `Waiting for version... (${version ? version.status : 'not started'}, ${Math.round(elapsedMs / 1000)}s)`
+        await sleep(Math.min(pollIntervalMs, timeoutMs - elapsedMs))
+    }
+}
+
+export function waitFailureMessage(result: WaitResult): string {
+    if (result.status === 'timeout') {
+        return `Timed out after ${Math.round(result.elapsedMs / 1000)}s waiting for the version to complete`
+    }
+    return `Version ${result.version?.id} failed`
+}
+
+type Deployment = Awaited<ReturnType<V0Client['deployments']['getById']>>
+type DeploymentErrors = Awaited<ReturnType<V0Client['deployments']['findErrors']>>
+
+export const DEFAULT_DEPLOY_TIMEOUT = 600
+
+// Exit codes for deployment waits; 1 stays the generic "command failed" code
+export const EXIT_DEPLOY_FAILED = 2
+export const EXIT_DEPLOY_TIMEOUT = 3
+
+export type DeploymentWaitStatus = 'ready' | 'failed' | 'timeout'
+
+export interface DeploymentWaitResult {
+    status: DeploymentWaitStatus
+    deployment: Deployment
+    errors?: DeploymentErrors
+    elapsedMs: number
+}
+
+// Consecutive polls with no further logs before a deployment counts as live
+export const READY_QUIET_POLLS = 3
+
+// Deployment details are not typed with a state, but the API may still report one.
+// This is a best guess over the field names the API has used; when none is set the wait
+// falls back to findErrors and the end of findLogs.
+function reportedState(deployment: Deployment): 'ready' | 'failed' | undefined {
+    const anyDeployment = deployment as any
+    const state = String(anyDeployment.status || anyDeployment.readyState || anyDeployment.state || '').toLowerCase()
+    if (['ready', 'completed', 'succeeded', 'success'].includes(state)) return 'ready'
+    if (['error', 'failed', 'canceled', 'cancelled'].includes(state)) return 'failed'
+    return undefined
+}
+
+function hasErrors(errors: DeploymentErrors): boolean {
+    return !!(errors.error || errors.formattedError || errors.fullErrorText)
+}
+
+// Poll a deployment until it is live or failed: its reported state, findErrors and the end of findLogs all count.
+// The SDK does not promise that a missing logs.nextSince means the build is over, and a poll can land
+// between two log batches, so the logs only count as ended after READY_QUIET_POLLS polls in a row without one.
+export async function waitForDeployment(v0: V0Client, deploymentId: string, options: WaitOptions = {}): Promise<DeploymentWaitResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DEPLOY_TIMEOUT * 1000
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL * 1000
+    const spinner = ora(`Waiting for deployment ${deploymentId}...`).start()
+    const startTime = Date.now()
+    let since: string | undefined
+    let quietPolls = 0
+
+    while (true) {
+        const deployment = await v0.deployments.getById({ deploymentId })
+        let errors = await v0.deployments.findErrors({ deploymentId })
+        let state = hasErrors(errors) ? 'failed' : reportedState(deployment)
+        if (!state) {
+            const logs = await v0.deployments.findLogs({ deploymentId, since })
+            if (logs.error) {
+                state = 'failed'
+                errors = { ...errors, error: logs.error }
+            } else if (logs.nextSince === undefined) {
+                // No further logs and no errors: the build looks over once this holds for a few polls
+                quietPolls++
+                if (quietPolls >= READY_QUIET_POLLS) state = 'ready'
+            } else {
+                quietPolls = 0
+                since = String(logs.nextSince)
+            }
+        }
+
+        const elapsedMs = Date.now() - startTime
+        const seconds = Math.round(elapsedMs / 1000)
+        if (state === 'ready') {
+            spinner.succeed(`Deployment ${deploymentId} is live (${seconds}s)`)
+            return { status: 'ready', deployment, elapsedMs }
+        }
+        if (state === 'failed') {
+            spinner.fail(`Deployment ${deploymentId} failed (${seconds}s)`)
+            return { status: 'failed', deployment, errors, elapsedMs }
+        }
+        if (elapsedMs >= timeoutMs) {
+            spinner.fail(`Timed out after ${seconds}s waiting for deployment ${deploymentId}`)
+            return { status: 'timeout', deployment, elapsedMs }
+        }
+
+        spinner.text = `Waiting for deployment ${deploymentId}... (${seconds}s)`
+        await sleep(Math.min(pollIntervalMs, timeoutMs - elapsedMs))
+    }
+}